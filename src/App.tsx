@@ -1,5 +1,48 @@
-import { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart, ComposedChart, ReferenceLine } from 'recharts';
+import { useSearchParams } from 'react-router-dom';
+import type { BusinessMetrics, CalculatorState, CohortData, MonthData, Plan, RetentionCurve, Scenario } from './lib/types';
+import { describeRetentionCurve, RETENTION_PRESETS, retentionSeries, sameRetention } from './lib/retention';
+import { blendedPlanCac, calculateProjections, HORIZON_OPTIONS } from './lib/projections';
+import { modelStartDate } from './lib/startingPoint';
+import { decodeScenario, encodeScenario, SCENARIO_PARAM } from './lib/scenarioUrl';
+import { DEFAULT_STATE } from './lib/state';
+import { formatCurrencyTick } from './lib/format';
+import ScenarioLibrary from './components/ScenarioLibrary';
+import ExportMenu from './components/ExportMenu';
+import CohortHeatmap from './components/CohortHeatmap';
+import PlanDetailsEditor from './components/PlanDetailsEditor';
+import PlanEconomicsCard from './components/PlanEconomicsCard';
+import CashFlowChart from './components/CashFlowChart';
+import AcquisitionScheduler from './components/AcquisitionScheduler';
+import SimulationPanel from './components/SimulationPanel';
+import SensitivityPanel from './components/SensitivityPanel';
+import GoalSeekPanel from './components/GoalSeekPanel';
+import FinancePlanEditor from './components/FinancePlanEditor';
+import FunnelCard from './components/FunnelCard';
+import StartingPointEditor from './components/StartingPointEditor';
+import ProfitAndLossCard from './components/ProfitAndLossCard';
+import MarginChart from './components/MarginChart';
+import MrrBridgeCard from './components/MrrBridgeCard';
+import ValuationPanel from './components/ValuationPanel';
+import MethodologyPanel from './components/MethodologyPanel';
+import ActualsPanel from './components/ActualsPanel';
+import StripeImportPanel from './components/StripeImportPanel';
+import ReportPanel from './components/ReportPanel';
+import { MONTH_NAMES } from './lib/acquisition';
+import { alignActuals } from './lib/actuals';
+import { PERIOD_TYPES, periodAxis, rollUpPeriods } from './lib/periods';
+import type { PeriodType } from './lib/periods';
+import { scheduledPriceChanges } from './lib/pricing';
+import { buildInsights } from './lib/insights';
+import { useSimulation } from './hooks/useSimulation';
+import { monthReachedBy } from './lib/simulation';
+
+const PLAN_COLORS = ['#9f7aea', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#06b6d4'];
+
+// Wait for the sliders to settle before rewriting the URL: browsers limit how
+// often history.replaceState may be called
+const URL_SYNC_DEBOUNCE_MS = 300;
 
 // Header Component
 const Header: React.FC = () => (
@@ -44,188 +87,11 @@ const Footer: React.FC = () => (
   </footer>
 );
 
-// Types
-interface Plan {
-  id: string;
-  name: string;
-  price: number;
-  probability: number;
-}
-
-interface CalculatorState {
-  targetIncome: number;
-  avgMonthlyRevenue: number;
-  plans: Plan[];
-  churnRate: number;
-  cac: number;
-  expansionRevenue: number;
-  supportCostPerUser: number;
-  infrastructureCostPerUser: number;
-  customersPerMonth: number | null;
-}
-
-interface MonthData {
-  month: number;
-  revenue: number;
-  customers: number;
-  mrr: number;
-  churnedCustomers: number;
-  netRevenue: number;
-  expansionRevenue: number;
-  operatingCosts: number;
-  profit: number;
-}
-
-interface BusinessMetrics {
-  clv: number;
-  arr: number;
-  valuation: number;
-  paybackPeriod: number;
-  grossMargin: number;
-  ltvCacRatio: number;
-  nrr: number;
-  grr: number;
-  ruleOf40: number;
-  breakEvenMonth: number;
-  averageArpu: number;
-}
-
-// Utility functions
-const calculateProjections = (
-  targetIncome: number,
-  avgMonthlyRevenue: number,
-  plans: Plan[],
-  churnRate: number,
-  cac: number,
-  expansionRate: number,
-  supportCost: number,
-  infraCost: number,
-  customersPerMonth: number | null = null,
-  months: number = 60
-): MonthData[] => {
-  const data: MonthData[] = [];
-  
-  const customersNeededPerMonth = customersPerMonth !== null 
-    ? customersPerMonth 
-    : avgMonthlyRevenue > 0 
-      ? Math.ceil(targetIncome / avgMonthlyRevenue)
-      : 0;
-  
-  let totalCustomers = 0;
-  let activeCustomers = 0;
-  let cumulativeRevenue = 0;
-  let cumulativeNetRevenue = 0;
-  let cumulativeProfit = 0;
-  let previousMrr = 0;
-  
-  for (let month = 1; month <= months; month++) {
-    totalCustomers += customersNeededPerMonth;
-    activeCustomers += customersNeededPerMonth;
-    
-    const churnedThisMonth = Math.floor(activeCustomers * (churnRate / 100));
-    activeCustomers -= churnedThisMonth;
-    
-    let baseMonthlyRevenue = 0;
-    if (plans.length > 0) {
-      const totalProb = plans.reduce((sum, p) => sum + p.probability, 0);
-      baseMonthlyRevenue = plans.reduce((sum, plan) => {
-        const normalizedProb = totalProb > 0 ? plan.probability / totalProb : 0;
-        return sum + (plan.price * normalizedProb * activeCustomers);
-      }, 0);
-    } else {
-      baseMonthlyRevenue = activeCustomers * avgMonthlyRevenue;
-    }
-    
-    // Expansion revenue from existing customers upgrading
-    const expansionRevenueAmount = previousMrr * (expansionRate / 100);
-    const monthlyRevenue = baseMonthlyRevenue + expansionRevenueAmount;
-    
-    // Operating costs
-    const supportCosts = activeCustomers * supportCost;
-    const infraCosts = activeCustomers * infraCost;
-    const acquisitionCost = customersNeededPerMonth * cac;
-    const totalOperatingCosts = supportCosts + infraCosts + acquisitionCost;
-    
-    const netMonthlyRevenue = monthlyRevenue - acquisitionCost;
-    const monthlyProfit = monthlyRevenue - totalOperatingCosts;
-    
-    cumulativeRevenue += monthlyRevenue;
-    cumulativeNetRevenue += netMonthlyRevenue;
-    cumulativeProfit += monthlyProfit;
-    previousMrr = monthlyRevenue;
-    
-    data.push({
-      month,
-      revenue: Math.round(cumulativeRevenue),
-      customers: totalCustomers,
-      mrr: Math.round(monthlyRevenue),
-      churnedCustomers: churnedThisMonth,
-      netRevenue: Math.round(cumulativeNetRevenue),
-      expansionRevenue: Math.round(expansionRevenueAmount),
-      operatingCosts: Math.round(totalOperatingCosts),
-      profit: Math.round(cumulativeProfit)
-    });
-  }
-  
-  return data;
-};
-
-const calculateBusinessMetrics = (
-  projections: MonthData[],
-  avgMonthlyRevenue: number,
-  churnRate: number,
-  cac: number,
-  expansionRate: number
-): BusinessMetrics => {
-  const finalMonth = projections[projections.length - 1];
-  const firstMonth = projections[0];
-  const arr = finalMonth?.mrr * 12 || 0;
-  
-  const monthlyChurnRate = churnRate / 100;
-  const clv = monthlyChurnRate > 0 ? avgMonthlyRevenue / monthlyChurnRate : avgMonthlyRevenue * 12;
-  
-  const valuation = arr * 7;
-  const paybackPeriod = avgMonthlyRevenue > 0 ? cac / avgMonthlyRevenue : 0;
-  const ltvCacRatio = cac > 0 ? clv / cac : 0;
-  
-  // Net Revenue Retention (NRR) - includes expansion
-  const retentionRate = 1 - monthlyChurnRate;
-  const nrr = (retentionRate + (expansionRate / 100)) * 100;
-  
-  // Gross Revenue Retention (GRR) - excludes expansion
-  const grr = retentionRate * 100;
-  
-  // Rule of 40: Growth Rate + Profit Margin
-  const growthRate = firstMonth && finalMonth 
-    ? ((finalMonth.mrr - firstMonth.mrr) / firstMonth.mrr) * 100 / 60 * 12 // Annualized growth
-    : 0;
-  const profitMargin = finalMonth && finalMonth.mrr > 0
-    ? ((finalMonth.mrr - finalMonth.operatingCosts) / finalMonth.mrr) * 100
-    : 0;
-  const ruleOf40 = growthRate + profitMargin;
-  
-  // Break-even month
-  const breakEvenMonth = projections.findIndex(d => d.profit >= 0);
-  
-  // Average ARPU
-  const averageArpu = avgMonthlyRevenue;
-  
-  const grossMargin = 80;
-  
-  return {
-    clv: Math.round(clv),
-    arr: Math.round(arr),
-    valuation: Math.round(valuation),
-    paybackPeriod: Math.round(paybackPeriod * 10) / 10,
-    grossMargin,
-    ltvCacRatio: Math.round(ltvCacRatio * 10) / 10,
-    nrr: Math.round(nrr * 10) / 10,
-    grr: Math.round(grr * 10) / 10,
-    ruleOf40: Math.round(ruleOf40 * 10) / 10,
-    breakEvenMonth: breakEvenMonth > 0 ? breakEvenMonth : -1,
-    averageArpu: Math.round(averageArpu * 100) / 100
-  };
-};
+// Simulated bands come through as [low, high] pairs
+const formatTooltipValue = (value: unknown) =>
+  Array.isArray(value)
+    ? value.map(v => `$${Number(v).toLocaleString()}`).join(' – ')
+    : `$${Number(value).toLocaleString()}`;
 
 // Components
 const CustomersPerMonthSlider: React.FC<{
@@ -335,8 +201,11 @@ const SliderField: React.FC<{
 
 const PlanEditor: React.FC<{
   plans: Plan[];
+  defaults: { churnRate: number; cac: number; expansionRate: number };
   onUpdate: (plans: Plan[]) => void;
-}> = ({ plans, onUpdate }) => {
+}> = ({ plans, defaults, onUpdate }) => {
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+
   const addPlan = () => {
     const newPlan: Plan = {
       id: Date.now().toString(),
@@ -347,12 +216,19 @@ const PlanEditor: React.FC<{
     onUpdate([...plans, newPlan]);
   };
 
-  const updatePlan = (id: string, field: keyof Plan, value: string | number) => {
-    onUpdate(plans.map(p => p.id === id ? { ...p, [field]: value } : p));
+  const updatePlan = (id: string, changes: Partial<Plan>) => {
+    onUpdate(plans.map(p => p.id === id ? { ...p, ...changes } : p));
   };
 
+  // Also drops upgrade/downgrade paths that pointed at the removed plan
   const removePlan = (id: string) => {
-    onUpdate(plans.filter(p => p.id !== id));
+    onUpdate(plans
+      .filter(p => p.id !== id)
+      .map(p => p.movements ? { ...p, movements: p.movements.filter(m => m.toPlanId !== id) } : p));
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(expandedIds.includes(id) ? expandedIds.filter(e => e !== id) : [...expandedIds, id]);
   };
 
   const totalProb = plans.reduce((sum, p) => sum + p.probability, 0);
@@ -385,7 +261,7 @@ const PlanEditor: React.FC<{
             <input
               type="text"
               value={plan.name}
-              onChange={(e) => updatePlan(plan.id, 'name', e.target.value)}
+              onChange={(e) => updatePlan(plan.id, { name: e.target.value })}
               placeholder="e.g., Starter, Pro, Enterprise"
               className="col-span-4 px-3 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
             />
@@ -394,7 +270,7 @@ const PlanEditor: React.FC<{
               <input
                 type="number"
                 value={plan.price || ''}
-                onChange={(e) => updatePlan(plan.id, 'price', Number(e.target.value))}
+                onChange={(e) => updatePlan(plan.id, { price: Number(e.target.value) })}
                 placeholder="49"
                 min="0"
                 className="w-full pl-7 pr-3 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
@@ -404,7 +280,7 @@ const PlanEditor: React.FC<{
               <input
                 type="number"
                 value={plan.probability || ''}
-                onChange={(e) => updatePlan(plan.id, 'probability', Number(e.target.value))}
+                onChange={(e) => updatePlan(plan.id, { probability: Number(e.target.value) })}
                 placeholder="33"
                 min="0"
                 max="100"
@@ -418,6 +294,20 @@ const PlanEditor: React.FC<{
             >
               Remove
             </button>
+            <button
+              onClick={() => toggleExpanded(plan.id)}
+              className="col-span-12 text-xs text-left px-0 py-0 bg-transparent text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {expandedIds.includes(plan.id) ? '▾' : '▸'} Churn, CAC, expansion & plan changes
+            </button>
+            {expandedIds.includes(plan.id) && (
+              <PlanDetailsEditor
+                plan={plan}
+                plans={plans}
+                defaults={defaults}
+                onChange={(changes) => updatePlan(plan.id, changes)}
+              />
+            )}
           </div>
         ))}
       </div>
@@ -432,15 +322,56 @@ const PlanEditor: React.FC<{
   );
 };
 
+const CURVE_TYPES: { type: RetentionCurve['type']; label: string }[] = [
+  { type: 'exponential', label: 'Flat' },
+  { type: 'cliff', label: 'Month-1 cliff' },
+  { type: 'custom', label: 'Custom table' }
+];
+
+const defaultCurve = (type: RetentionCurve['type']): RetentionCurve => {
+  switch (type) {
+    case 'exponential':
+      return { type };
+    case 'cliff':
+      return { type, firstMonthChurn: 20 };
+    case 'custom':
+      return { type, retention: [75, 65, 60, 57, 55, 54] };
+  }
+};
+
+const parseRetentionTable = (text: string): number[] | null => {
+  const values = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  return values.length > 0 && values.every(v => Number.isFinite(v) && v >= 0 && v <= 100) ? values : null;
+};
+
 const ChurnSelector: React.FC<{
-  value: number;
-  onChange: (value: number) => void;
-}> = ({ value, onChange }) => {
-  const options = [
-    { label: 'Successful', rate: 5, description: '5% monthly churn', icon: '🏆' },
-    { label: 'Intermediate', rate: 10, description: '10% monthly churn', icon: '📈' },
-    { label: 'MVP Product', rate: 25, description: '25% monthly churn', icon: '🚀' }
-  ];
+  churnRate: number;
+  retentionCurve: RetentionCurve;
+  onChange: (value: { churnRate: number; retentionCurve: RetentionCurve }) => void;
+}> = ({ churnRate, retentionCurve, onChange }) => {
+  const [tableText, setTableText] = useState(
+    retentionCurve.type === 'custom' ? retentionCurve.retention.join(', ') : ''
+  );
+  const retention = retentionSeries(retentionCurve, churnRate, 12);
+  // Follow the state when a different custom table is loaded from elsewhere
+  // (a saved scenario or link), but keep half-typed input while editing.
+  const parsedTable = parseRetentionTable(tableText);
+  const tableValue = retentionCurve.type === 'custom' && parsedTable
+    && parsedTable.join() !== retentionCurve.retention.join()
+    ? retentionCurve.retention.join(', ')
+    : tableText;
+
+  const changeType = (type: RetentionCurve['type']) => {
+    const curve = defaultCurve(type);
+    if (curve.type === 'custom') setTableText(curve.retention.join(', '));
+    onChange({ churnRate, retentionCurve: curve });
+  };
+
+  const changeTable = (text: string) => {
+    setTableText(text);
+    const table = parseRetentionTable(text);
+    if (table) onChange({ churnRate, retentionCurve: { type: 'custom', retention: table } });
+  };
 
   return (
     <div className="mb-6">
@@ -448,26 +379,123 @@ const ChurnSelector: React.FC<{
         Business Maturity Level
       </label>
       <div className="grid grid-cols-3 gap-2">
-        {options.map((option) => (
+        {RETENTION_PRESETS.map((preset) => (
           <button
-            key={option.rate}
-            onClick={() => onChange(option.rate)}
+            key={preset.id}
+            onClick={() => onChange({ churnRate: preset.churnRate, retentionCurve: preset.retentionCurve })}
             className={`p-3 rounded-lg border-2 transition-all ${
-              value === option.rate
+              sameRetention(preset, { churnRate, retentionCurve })
                 ? 'border-primary bg-primary/10'
                 : 'border-border bg-secondary hover:border-primary/50'
             }`}
           >
-            <div className="text-2xl mb-1">{option.icon}</div>
-            <div className="font-semibold text-foreground text-sm">{option.label}</div>
-            <div className="text-xs text-muted-foreground mt-1">{option.description}</div>
+            <div className="text-2xl mb-1">{preset.icon}</div>
+            <div className="font-semibold text-foreground text-sm">{preset.label}</div>
+            <div className="text-xs text-muted-foreground mt-1">{preset.description}</div>
           </button>
         ))}
       </div>
+
+      <details className="mt-3 p-3 bg-secondary/50 border border-border rounded-lg">
+        <summary className="text-sm font-semibold text-foreground cursor-pointer">
+          Retention curve: {describeRetentionCurve(retentionCurve, churnRate)}
+        </summary>
+        <div className="mt-4">
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            {CURVE_TYPES.map(({ type, label }) => (
+              <button
+                key={type}
+                onClick={() => changeType(type)}
+                className={`text-xs px-2 py-1 rounded border ${
+                  retentionCurve.type === type ? 'border-primary bg-primary/10' : 'border-border bg-secondary hover:bg-primary/10'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {retentionCurve.type === 'cliff' && (
+            <SliderField
+              label="Month-1 Churn"
+              value={retentionCurve.firstMonthChurn}
+              onChange={(v) => onChange({ churnRate, retentionCurve: { type: 'cliff', firstMonthChurn: v } })}
+              min={0}
+              max={80}
+              step={1}
+              suffix="%"
+            />
+          )}
+
+          {retentionCurve.type === 'custom' && (
+            <div className="mb-6">
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                % of cohort retained after month 1, 2, 3…
+              </label>
+              <input
+                type="text"
+                value={tableValue}
+                onChange={(e) => changeTable(e.target.value)}
+                placeholder="75, 65, 60, 57, 55"
+                className={`w-full px-3 py-2 bg-background border rounded focus:outline-none text-sm ${
+                  parseRetentionTable(tableValue) ? 'border-border focus:border-primary' : 'border-red-500'
+                }`}
+              />
+            </div>
+          )}
+
+          <SliderField
+            label={retentionCurve.type === 'exponential' ? 'Monthly Churn' : 'Steady Monthly Churn Afterwards'}
+            value={churnRate}
+            onChange={(v) => onChange({ churnRate: v, retentionCurve })}
+            min={0}
+            max={50}
+            step={0.5}
+            suffix="%"
+          />
+
+          <div className="grid grid-cols-3 gap-2 text-center text-xs">
+            {[3, 6, 12].map(month => (
+              <div key={month} className="p-2 bg-secondary rounded border border-border">
+                <div className="text-muted-foreground">Month {month}</div>
+                <div className="font-semibold text-foreground">{retention[month - 1].toFixed(0)}% retained</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </details>
     </div>
   );
 };
 
+const ShareLinkButton: React.FC = () => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch {
+      window.prompt('Copy this link to share the scenario:', window.location.href);
+    }
+  };
+
+  return (
+    <button
+      onClick={copyLink}
+      className="text-sm px-4 py-2 rounded-lg bg-secondary border border-border hover:bg-primary/10 transition-colors"
+    >
+      {copied ? '✅ Link copied' : '🔗 Copy shareable link'}
+    </button>
+  );
+};
+
 interface MetricCardProps extends React.HTMLAttributes<HTMLDivElement> {
   title: string;
   value: string | number;
@@ -512,7 +540,7 @@ const BigPictureCard: React.FC<{
         <div>
           <div className="text-sm text-muted-foreground mb-1">Customer Lifetime Value</div>
           <div className="text-3xl font-bold text-primary">${metrics.clv.toLocaleString()}</div>
-          <div className="text-xs text-muted-foreground mt-1">Total value per customer</div>
+          <div className="text-xs text-muted-foreground mt-1">Lifetime gross profit per customer</div>
         </div>
         
         <div>
@@ -524,7 +552,9 @@ const BigPictureCard: React.FC<{
         <div>
           <div className="text-sm text-muted-foreground mb-1">Business Valuation</div>
           <div className="text-3xl font-bold text-primary">${(metrics.valuation / 1000000).toFixed(2)}M</div>
-          <div className="text-xs text-muted-foreground mt-1">ARR × 7x multiple</div>
+          <div className="text-xs text-muted-foreground mt-1">
+            ${(metrics.valuationRange.low / 1000000).toFixed(2)}M – ${(metrics.valuationRange.high / 1000000).toFixed(2)}M range
+          </div>
         </div>
         
         <div>
@@ -550,7 +580,7 @@ const BigPictureCard: React.FC<{
         <div>
           <div className="text-sm text-muted-foreground mb-1">Average ARPU</div>
           <div className="text-3xl font-bold text-primary">${metrics.averageArpu}</div>
-          <div className="text-xs text-muted-foreground mt-1">Per user per month</div>
+          <div className="text-xs text-muted-foreground mt-1">Final month, per customer</div>
         </div>
 
         <div>
@@ -561,8 +591,8 @@ const BigPictureCard: React.FC<{
 
         <div>
           <div className="text-sm text-muted-foreground mb-1">Active Customers</div>
-          <div className="text-3xl font-bold text-primary">{finalMonth.customers.toLocaleString()}</div>
-          <div className="text-xs text-muted-foreground mt-1">At month 60</div>
+          <div className="text-3xl font-bold text-primary">{finalMonth.activeCustomers.toLocaleString()}</div>
+          <div className="text-xs text-muted-foreground mt-1">At month {finalMonth.month}</div>
         </div>
         
         <div>
@@ -587,11 +617,21 @@ const BigPictureCard: React.FC<{
         
         <div>
           <div className="text-sm text-muted-foreground mb-1">Rule of 40</div>
-          <div className={`text-3xl font-bold ${metrics.ruleOf40 >= 40 ? 'text-green-500' : 'text-yellow-500'}`}>
-            {metrics.ruleOf40}%
+          <div className={`text-3xl font-bold ${metrics.ruleOf40 === null ? 'text-muted-foreground' : metrics.ruleOf40 >= 40 ? 'text-green-500' : 'text-yellow-500'}`}>
+            {metrics.ruleOf40 === null ? '—' : `${metrics.ruleOf40}%`}
           </div>
           <div className="text-xs text-muted-foreground mt-1">
-            {metrics.ruleOf40 >= 40 ? '✅ Excellent balance' : '📊 Growth vs margin'}
+            {metrics.ruleOf40 === null ? 'Needs over a year' : metrics.ruleOf40 >= 40 ? '✅ Excellent balance' : '📊 Growth vs margin'}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm text-muted-foreground mb-1">Quick Ratio</div>
+          <div className={`text-3xl font-bold ${metrics.quickRatio === null || metrics.quickRatio >= 4 ? 'text-green-500' : 'text-yellow-500'}`}>
+            {metrics.quickRatio === null ? '—' : metrics.quickRatio}
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {metrics.quickRatio === null ? 'No MRR lost' : metrics.quickRatio >= 4 ? '✅ Efficient growth' : '📊 MRR gained per $ lost'}
           </div>
         </div>
       </div>
@@ -603,65 +643,10 @@ const InsightsCard: React.FC<{
   metrics: BusinessMetrics; 
   finalMonth: MonthData | undefined;
   projections: MonthData[];
-}> = ({ metrics, finalMonth, projections }) => {
-  const insights = [];
-  
-  // LTV:CAC Ratio insights
-  if (metrics.ltvCacRatio >= 5) {
-    insights.push({ type: 'success', text: `Outstanding LTV:CAC ratio of ${metrics.ltvCacRatio}:1 indicates highly efficient customer acquisition. Consider increasing marketing spend to accelerate growth.` });
-  } else if (metrics.ltvCacRatio >= 3) {
-    insights.push({ type: 'success', text: `Healthy LTV:CAC ratio of ${metrics.ltvCacRatio}:1 shows sustainable unit economics. Continue current acquisition strategy.` });
-  } else if (metrics.ltvCacRatio >= 1) {
-    insights.push({ type: 'warning', text: `LTV:CAC ratio of ${metrics.ltvCacRatio}:1 is below the ideal 3:1 threshold. Focus on reducing churn or CAC to improve profitability.` });
-  } else {
-    insights.push({ type: 'danger', text: `Critical: LTV:CAC ratio of ${metrics.ltvCacRatio}:1 means you're losing money on each customer. Urgently review pricing and acquisition strategy.` });
-  }
-  
-  // Payback period insights
-  if (metrics.paybackPeriod <= 6) {
-    insights.push({ type: 'success', text: `Exceptional ${metrics.paybackPeriod}-month payback period allows for rapid reinvestment in growth.` });
-  } else if (metrics.paybackPeriod <= 12) {
-    insights.push({ type: 'success', text: `Good ${metrics.paybackPeriod}-month payback period keeps cash flow healthy.` });
-  } else if (metrics.paybackPeriod <= 18) {
-    insights.push({ type: 'warning', text: `${metrics.paybackPeriod}-month payback period is manageable but consider optimizing CAC or increasing ARPU.` });
-  } else {
-    insights.push({ type: 'danger', text: `Long ${metrics.paybackPeriod}-month payback period may strain cash flow. Prioritize reducing CAC.` });
-  }
-  
-  // NRR insights
-  if (metrics.nrr >= 120) {
-    insights.push({ type: 'success', text: `Outstanding ${metrics.nrr}% NRR shows strong expansion revenue. Your existing customers are growing significantly.` });
-  } else if (metrics.nrr >= 100) {
-    insights.push({ type: 'success', text: `Positive ${metrics.nrr}% NRR means expansion revenue exceeds churn - a key indicator of product-market fit.` });
-  } else if (metrics.nrr >= 90) {
-    insights.push({ type: 'warning', text: `${metrics.nrr}% NRR indicates slight contraction. Focus on upselling and cross-selling to existing customers.` });
-  } else {
-    insights.push({ type: 'danger', text: `${metrics.nrr}% NRR shows significant revenue loss from existing customers. Address churn immediately.` });
-  }
-  
-  // Rule of 40 insights
-  if (metrics.ruleOf40 >= 40) {
-    insights.push({ type: 'success', text: `Rule of 40 score of ${metrics.ruleOf40}% indicates excellent balance between growth and profitability - attractive to investors.` });
-  } else {
-    insights.push({ type: 'info', text: `Rule of 40 score of ${metrics.ruleOf40}% suggests optimizing either growth rate or profit margins to reach the 40% threshold.` });
-  }
-  
-  // Break-even insights
-  if (metrics.breakEvenMonth > 0 && metrics.breakEvenMonth <= 24) {
-    insights.push({ type: 'success', text: `Reaching break-even at month ${metrics.breakEvenMonth} demonstrates a path to profitability within 2 years.` });
-  } else if (metrics.breakEvenMonth > 24) {
-    insights.push({ type: 'info', text: `Break-even projected at month ${metrics.breakEvenMonth}. Consider strategies to accelerate profitability.` });
-  } else if (metrics.breakEvenMonth === -1) {
-    insights.push({ type: 'warning', text: `No break-even point reached in 60 months. Review cost structure and pricing strategy.` });
-  }
-  
-  // Customer insights
-  if (finalMonth) {
-    const totalChurned = projections.reduce((sum, m) => sum + m.churnedCustomers, 0);
-    const churnImpact = ((totalChurned / finalMonth.customers) * 100).toFixed(1);
-    insights.push({ type: 'info', text: `Total customer churn over 60 months: ${totalChurned.toLocaleString()} customers (${churnImpact}% of acquired). Reducing churn by 1% could add $${((finalMonth.mrr * 0.01 * 60) / 1000).toFixed(0)}k in revenue.` });
-  }
-  
+  state: CalculatorState;
+}> = ({ metrics, finalMonth, projections, state }) => {
+  const insights = buildInsights(metrics, finalMonth, projections, state);
+
   return (
     <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
       <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
@@ -695,8 +680,15 @@ const InsightsCard: React.FC<{
             <div className="flex items-start gap-2">
               <span className="text-muted-foreground">•</span>
               <div>
-                <div className="text-foreground font-medium">{finalMonth.customers.toLocaleString()}</div>
-                <div className="text-muted-foreground text-xs">Total customers</div>
+                <div className="text-foreground font-medium">{finalMonth.activeCustomers.toLocaleString()}</div>
+                <div className="text-muted-foreground text-xs">Active customers</div>
+              </div>
+            </div>
+            <div className="flex items-start gap-2">
+              <span className="text-muted-foreground">•</span>
+              <div>
+                <div className="text-foreground font-medium">{finalMonth.cumulativeCustomers.toLocaleString()}</div>
+                <div className="text-muted-foreground text-xs">Customers acquired in total</div>
               </div>
             </div>
             <div className="flex items-start gap-2">
@@ -729,59 +721,122 @@ const InsightsCard: React.FC<{
 
 // Main App
 const SaaSCalculator: React.FC = () => {
-  const [state, setState] = useState<CalculatorState>({
-    targetIncome: 10000,
-    avgMonthlyRevenue: 50,
-    plans: [],
-    churnRate: 10,
-    cac: 100,
-    customersPerMonth: null,
-    expansionRevenue: 5,
-    supportCostPerUser: 2,
-    infrastructureCostPerUser: 3
-  });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [state, setState] = useState<CalculatorState>(
+    () => decodeScenario(searchParams.get(SCENARIO_PARAM)) ?? DEFAULT_STATE
+  );
 
   const [projections, setProjections] = useState<MonthData[]>([]);
+  const [cohorts, setCohorts] = useState<CohortData[]>([]);
   const [metrics, setMetrics] = useState<BusinessMetrics>({
     clv: 0,
     arr: 0,
     valuation: 0,
+    valuationRange: { low: 0, base: 0, high: 0, methods: [] },
     paybackPeriod: 0,
     grossMargin: 80,
     ltvCacRatio: 0,
     nrr: 0,
     grr: 0,
     ruleOf40: 0,
+    quickRatio: null,
     breakEvenMonth: -1,
-    averageArpu: 0
+    zeroCashMonth: -1,
+    averageArpu: 0,
+    planMetrics: []
   });
 
+  const scenario = useMemo<Scenario>(() => ({
+    ...state,
+    months: state.horizonMonths,
+    startDate: modelStartDate(state)
+  }), [state]);
+
   useEffect(() => {
-    const data = calculateProjections(
-      state.targetIncome,
-      state.avgMonthlyRevenue,
-      state.plans,
-      state.churnRate,
-      state.cac,
-      state.expansionRevenue,
-      state.supportCostPerUser,
-      state.infrastructureCostPerUser,
-      state.customersPerMonth
-    );
-    setProjections(data);
-    
-    const businessMetrics = calculateBusinessMetrics(
-      data,
-      state.avgMonthlyRevenue,
-      state.churnRate,
-      state.cac,
-      state.expansionRevenue
+    const result = calculateProjections(scenario);
+    setProjections(result.projections);
+    setMetrics(result.metrics);
+    setCohorts(result.cohorts);
+  }, [scenario]);
+
+  // Keep the URL in sync so the current model can be shared as a link
+  useEffect(() => {
+    const encoded = encodeScenario(state);
+    if (searchParams.get(SCENARIO_PARAM) === encoded) return;
+    const timer = setTimeout(
+      () => setSearchParams({ [SCENARIO_PARAM]: encoded }, { replace: true }),
+      URL_SYNC_DEBOUNCE_MS
     );
-    setMetrics(businessMetrics);
-  }, [state]);
+    return () => clearTimeout(timer);
+  }, [state, searchParams, setSearchParams]);
+
+  const [stackMrrByPlan, setStackMrrByPlan] = useState(false);
+  const showPlanStack = stackMrrByPlan && state.plans.length > 0;
+
+  const [stripeImportOpen, setStripeImportOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+
+  const [simulationEnabled, setSimulationEnabled] = useState(false);
+  const simulation = useSimulation(scenario, simulationEnabled);
+  const bands = simulationEnabled ? simulation.result : null;
+
+  // Variance is measured against the plan, not the projection the actuals drive
+  const planProjections = useMemo(() => scenario.actuals.continueFromActuals
+    ? calculateProjections({ ...scenario, actuals: { ...scenario.actuals, continueFromActuals: false } }).projections
+    : projections, [scenario, projections]);
+  const hasActuals = state.actuals.months.length > 0;
+
+  const [period, setPeriod] = useState<PeriodType>('month');
+  const periods = useMemo(
+    () => rollUpPeriods(projections, period, state.fiscalYearStart),
+    [projections, period, state.fiscalYearStart]
+  );
+  const axis = periodAxis(period);
+
+  // Periods with the simulated P10-P90 ranges and medians and any imported
+  // actuals alongside, taken at the period end except churn, which is summed
+  const chartData = useMemo(() => {
+    const actuals = alignActuals(scenario.actuals.months, scenario.startDate);
+    return periods.map(d => {
+      const band = bands?.months[d.month - 1];
+      const actual = actuals.get(d.month);
+      const churned = Array.from({ length: d.month - d.firstMonth + 1 }, (_, i) => actuals.get(d.firstMonth + i)?.churnedCustomers)
+        .filter((value): value is number => value !== undefined);
+      return {
+        ...d,
+        ...(band && {
+          mrrBand: [band.mrr.p10, band.mrr.p90],
+          mrrP50: band.mrr.p50,
+          revenueBand: [band.revenue.p10, band.revenue.p90],
+          revenueP50: band.revenue.p50
+        }),
+        ...(actual && {
+          actualMrr: actual.mrr,
+          actualActive: actual.activeCustomers
+        }),
+        ...(churned.length > 0 && { actualChurned: churned.reduce((sum, value) => sum + value, 0) })
+      };
+    });
+  }, [periods, bands, scenario]);
+
+  // Scheduled price changes inside the horizon, placed on the period they
+  // fall in
+  const priceChangeMarkers = state.plans.flatMap((plan, index) =>
+    scheduledPriceChanges(plan).flatMap(change => {
+      const at = periods.find(p => p.firstMonth <= change.month && change.month <= p.month);
+      return at ? [{
+        key: `${plan.id}-${change.id}`,
+        x: period === 'month' ? at.month : at.label,
+        label: `${plan.name || 'Unnamed plan'} → $${change.price}`,
+        color: PLAN_COLORS[index % PLAN_COLORS.length]
+      }] : [];
+    })
+  );
 
   const finalMonth = projections[projections.length - 1];
-  const monthsToTarget = projections.findIndex(d => d.mrr >= state.targetIncome);
+  const monthsToTarget = projections.find(d => d.mrr >= state.targetIncome)?.month;
+  const targetOdds = bands ? bands.targetByMonth[bands.targetByMonth.length - 1] ?? 0 : null;
+  const likelyTargetMonth = bands ? monthReachedBy(bands.targetByMonth, 0.5) : -1;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
@@ -793,10 +848,45 @@ const SaaSCalculator: React.FC = () => {
             SaaS Income Calculator
           </h1>
           <p className="text-lg text-muted-foreground">
-            Project your revenue growth over 60 months with real business metrics
+            Project your revenue growth over {state.horizonMonths} months with real business metrics
           </p>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            <ShareLinkButton />
+            <ExportMenu scenario={scenario} result={{ projections, metrics, cohorts }} />
+            <button
+              onClick={() => setReportOpen(!reportOpen)}
+              className="text-sm px-4 py-2 rounded-lg bg-secondary border border-border hover:bg-primary/10 transition-colors"
+            >
+              📄 Generate report
+            </button>
+            <button
+              onClick={() => setStripeImportOpen(!stripeImportOpen)}
+              className="text-sm px-4 py-2 rounded-lg bg-secondary border border-border hover:bg-primary/10 transition-colors"
+            >
+              📥 Import from Stripe
+            </button>
+          </div>
         </div>
 
+        {stripeImportOpen && (
+          <StripeImportPanel
+            state={state}
+            onApply={(imported) => {
+              setState(imported);
+              setStripeImportOpen(false);
+            }}
+            onClose={() => setStripeImportOpen(false)}
+          />
+        )}
+
+        {reportOpen && (
+          <ReportPanel
+            scenario={scenario}
+            result={{ projections, metrics, cohorts }}
+            onClose={() => setReportOpen(false)}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Input Panel */}
           <div className="lg:col-span-1">
@@ -806,6 +896,23 @@ const SaaSCalculator: React.FC = () => {
                 Configuration
               </h2>
               
+              <div className="mb-6">
+                <label className="block text-sm font-semibold mb-3 text-foreground">Projection Horizon</label>
+                <div className="grid grid-cols-5 gap-2">
+                  {HORIZON_OPTIONS.map(months => (
+                    <button
+                      key={months}
+                      onClick={() => setState({ ...state, horizonMonths: months })}
+                      className={`text-xs px-2 py-2 rounded border ${
+                        state.horizonMonths === months ? 'border-primary bg-primary/10' : 'border-border bg-secondary hover:bg-primary/10'
+                      }`}
+                    >
+                      {months} mo
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <SliderField
                 label="Target Monthly Income"
                 value={state.targetIncome}
@@ -836,22 +943,106 @@ const SaaSCalculator: React.FC = () => {
                 prefix="$"
               />
 
-              <CustomersPerMonthSlider
-                customersPerMonth={state.customersPerMonth}
-                targetIncome={state.targetIncome}
-                avgMonthlyRevenue={state.avgMonthlyRevenue}
-                enabled={state.customersPerMonth !== null}
-                onCustomersPerMonthChange={(value) => setState({ ...state, customersPerMonth: value })}
-              />
+              <AcquisitionScheduler
+                acquisition={state.acquisition}
+                cac={blendedPlanCac(scenario)}
+                projections={projections}
+                onChange={(acquisition) => setState({ ...state, acquisition })}
+              >
+                <CustomersPerMonthSlider
+                  customersPerMonth={state.customersPerMonth}
+                  targetIncome={state.targetIncome}
+                  avgMonthlyRevenue={state.avgMonthlyRevenue}
+                  enabled={state.customersPerMonth !== null}
+                  onCustomersPerMonthChange={(value) => setState({ ...state, customersPerMonth: value })}
+                />
+              </AcquisitionScheduler>
 
               <PlanEditor
                 plans={state.plans}
+                defaults={{ churnRate: state.churnRate, cac: state.cac, expansionRate: state.expansionRevenue }}
                 onUpdate={(plans) => setState({ ...state, plans })}
               />
 
               <ChurnSelector
-                value={state.churnRate}
-                onChange={(v) => setState({ ...state, churnRate: v })}
+                churnRate={state.churnRate}
+                retentionCurve={state.retentionCurve}
+                onChange={(retention) => setState({ ...state, ...retention })}
+              />
+
+              <StartingPointEditor
+                start={state.start}
+                plans={state.plans}
+                onChange={(start) => setState({ ...state, start })}
+              />
+
+              <h3 className="text-lg font-bold text-foreground mb-4 mt-8 pt-6 border-t border-border">
+                Operating Assumptions
+              </h3>
+
+              <SliderField
+                label="Monthly Expansion Revenue"
+                value={state.expansionRevenue}
+                onChange={(v) => setState({ ...state, expansionRevenue: v })}
+                min={0}
+                max={20}
+                step={0.5}
+                suffix="%"
+              />
+
+              <SliderField
+                label="Monthly Win-back of Churned Customers"
+                value={state.reactivationRate}
+                onChange={(v) => setState({ ...state, reactivationRate: v })}
+                min={0}
+                max={10}
+                step={0.5}
+                suffix="%"
+              />
+
+              <SliderField
+                label="Support Cost per User/Month"
+                value={state.supportCostPerUser}
+                onChange={(v) => setState({ ...state, supportCostPerUser: v })}
+                min={0}
+                max={50}
+                step={0.5}
+                prefix="$"
+              />
+
+              <SliderField
+                label="Infrastructure Cost per User/Month"
+                value={state.infrastructureCostPerUser}
+                onChange={(v) => setState({ ...state, infrastructureCostPerUser: v })}
+                min={0}
+                max={50}
+                step={0.5}
+                prefix="$"
+              />
+
+              <SliderField
+                label="Third-party Fees per User/Month"
+                value={state.thirdPartyCostPerUser}
+                onChange={(v) => setState({ ...state, thirdPartyCostPerUser: v })}
+                min={0}
+                max={50}
+                step={0.5}
+                prefix="$"
+              />
+
+              <SliderField
+                label="Payment Processing"
+                value={state.paymentProcessingRate}
+                onChange={(v) => setState({ ...state, paymentProcessingRate: v })}
+                min={0}
+                max={10}
+                step={0.1}
+                suffix="% of revenue"
+              />
+
+              <FinancePlanEditor
+                finance={state.finance}
+                onChange={(finance) => setState({ ...state, finance })}
               />
             </div>
           </div>
@@ -861,7 +1052,7 @@ const SaaSCalculator: React.FC = () => {
             {/* Metrics */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <MetricCard
-                title="Month 60 MRR"
+                title={`Month ${state.horizonMonths} MRR`}
                 value={`$${finalMonth?.mrr.toLocaleString() || 0}`}
                 subtitle="Monthly Recurring Revenue"
                 highlight
@@ -869,18 +1060,68 @@ const SaaSCalculator: React.FC = () => {
               <MetricCard
                 title="Total Revenue"
                 value={`$${finalMonth?.revenue.toLocaleString() || 0}`}
-                subtitle="Cumulative over 60 months"
+                subtitle={`Cumulative over ${state.horizonMonths} months`}
               />
               <MetricCard
                 title="Active Customers"
-                value={finalMonth?.customers || 0}
-                subtitle="At month 60"
-              />
-              <MetricCard
-                title="Time to Target"
-                value={monthsToTarget > 0 ? `${monthsToTarget} mo` : 'N/A'}
-                subtitle="Months to reach target"
+                value={finalMonth?.activeCustomers.toLocaleString() || 0}
+                subtitle={`At month ${state.horizonMonths}`}
               />
+              {targetOdds !== null ? (
+                <MetricCard
+                  title="Time to Target"
+                  value={`${Math.round(targetOdds * 100)}%`}
+                  subtitle={likelyTargetMonth > 0
+                    ? `Chance within ${state.horizonMonths} months · 50% by month ${likelyTargetMonth}`
+                    : `Chance of reaching target within ${state.horizonMonths} months`}
+                />
+              ) : (
+                <MetricCard
+                  title="Time to Target"
+                  value={monthsToTarget !== undefined ? `${monthsToTarget} mo` : 'N/A'}
+                  subtitle="Months to reach target"
+                />
+              )}
+            </div>
+
+            <SimulationPanel
+              enabled={simulationEnabled}
+              onToggle={() => setSimulationEnabled(!simulationEnabled)}
+              uncertainty={state.uncertainty}
+              onChange={(uncertainty) => setState({ ...state, uncertainty })}
+              result={bands}
+              running={simulation.running}
+              error={simulation.error}
+              onCancel={simulation.cancel}
+              horizon={scenario.months}
+              hasPlans={state.plans.length > 0}
+            />
+
+            <div className="bg-card border-2 border-purple-500/50 rounded-xl px-8 py-4 shadow-xl flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-foreground mr-2">View</span>
+                {PERIOD_TYPES.map(({ type, label }) => (
+                  <button
+                    key={type}
+                    onClick={() => setPeriod(type)}
+                    className={`text-xs px-2 py-1 rounded border ${
+                      period === type ? 'border-primary bg-primary/10' : 'border-border bg-secondary hover:bg-primary/10'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                Fiscal year starts
+                <select
+                  value={state.fiscalYearStart}
+                  onChange={(e) => setState({ ...state, fiscalYearStart: Number(e.target.value) })}
+                  className="px-2 py-1 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm text-foreground"
+                >
+                  {MONTH_NAMES.map((name, index) => <option key={name} value={index + 1}>{name}</option>)}
+                </select>
+              </label>
             </div>
 
             {/* Revenue Chart */}
@@ -891,7 +1132,7 @@ const SaaSCalculator: React.FC = () => {
               </h3>
               <div className="h-[400px] -mx-2 pr-2">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={projections}>
+                  <AreaChart data={chartData}>
                     <defs>
                       <linearGradient id="colorRevenue" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
@@ -904,32 +1145,25 @@ const SaaSCalculator: React.FC = () => {
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
                     <XAxis 
-                      dataKey="month" 
+                      dataKey={axis.dataKey} 
                       tick={{ fill: '#a0aec0' }}
                       axisLine={{ stroke: '#4a5568' }}
-                      label={{ value: 'Month', position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+                      label={{ value: axis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
                     />
                     <YAxis 
                       tick={{ fill: '#a0aec0' }}
                       axisLine={{ stroke: '#4a5568' }}
                       width={90}
                       tickMargin={5}
-                      tickFormatter={(value) => {
-                        if (value >= 1000000) {
-                          return `$${(value / 1000000).toFixed(1)}M`;
-                        } else if (value >= 1000) {
-                          return `$${(value / 1000).toFixed(0)}K`;
-                        }
-                        return `$${value}`;
-                      }}
+                      tickFormatter={formatCurrencyTick}
                     />
                     <Tooltip 
                       formatter={(value, name) => {
                         const label = name === 'revenue' ? 'Gross Revenue' : 
                                      name === 'netRevenue' ? 'Net Revenue' : name;
-                        return [`$${Number(value).toLocaleString()}`, label];
+                        return [formatTooltipValue(value), label];
                       }}
-                      labelFormatter={(month) => `Month ${month}`}
+                      labelFormatter={axis.heading}
                       contentStyle={{
                         background: '#1a202c',
                         border: '1px solid #4a5568',
@@ -957,70 +1191,258 @@ const SaaSCalculator: React.FC = () => {
                       name="Net Revenue"
                       activeDot={{ r: 6, fill: '#10b981' }}
                     />
+                    {bands && (
+                      <Area
+                        type="monotone"
+                        dataKey="revenueBand"
+                        stroke="none"
+                        fill="#3b82f6"
+                        fillOpacity={0.15}
+                        name="Gross Revenue P10–P90"
+                      />
+                    )}
+                    {bands && (
+                      <Area
+                        type="monotone"
+                        dataKey="revenueP50"
+                        stroke="#93c5fd"
+                        strokeDasharray="5 5"
+                        fill="none"
+                        name="Gross Revenue P50"
+                      />
+                    )}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
               <div className="mt-4 text-sm text-muted-foreground text-center">
-                60-Month Projection
+                {state.horizonMonths}-Month Projection
               </div>
             </div>
 
             {/* MRR Chart */}
+            <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+                  <span className="text-3xl">📊</span>
+                  Monthly Recurring Revenue
+                </h3>
+                {state.plans.length > 0 && (
+                  <button
+                    onClick={() => setStackMrrByPlan(!stackMrrByPlan)}
+                    className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+                  >
+                    {stackMrrByPlan ? 'Show total' : 'Stack by plan'}
+                  </button>
+                )}
+              </div>
+              <div className="h-[400px] -mx-2 pr-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+                    <XAxis 
+                      dataKey={axis.dataKey} 
+                      tick={{ fill: '#a0aec0' }}
+                      axisLine={{ stroke: '#4a5568' }}
+                      label={{ value: axis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+                    />
+                    <YAxis 
+                      tick={{ fill: '#a0aec0' }}
+                      axisLine={{ stroke: '#4a5568' }}
+                      width={90}
+                      tickMargin={5}
+                      tickFormatter={formatCurrencyTick}
+                    />
+                    <Tooltip 
+                      formatter={(value, name) => [formatTooltipValue(value), name]}
+                      labelFormatter={axis.heading}
+                      contentStyle={{
+                        background: '#1a202c',
+                        border: '1px solid #4a5568',
+                        borderRadius: '0.5rem',
+                      }}
+                    />
+                    {showPlanStack ? (
+                      state.plans.map((plan, index) => (
+                        <Area
+                          key={plan.id}
+                          type="monotone"
+                          dataKey={(d: MonthData) => d.planBreakdown[plan.id]?.mrr ?? 0}
+                          stackId="mrr"
+                          stroke={PLAN_COLORS[index % PLAN_COLORS.length]}
+                          fill={PLAN_COLORS[index % PLAN_COLORS.length]}
+                          fillOpacity={0.4}
+                          name={plan.name || 'Unnamed plan'}
+                        />
+                      ))
+                    ) : (
+                      <Line 
+                        type="monotone" 
+                        dataKey="mrr" 
+                        stroke="#9f7aea" 
+                        strokeWidth={2}
+                        dot={false}
+                        activeDot={{ r: 6, fill: '#9f7aea' }}
+                        name="MRR"
+                      />
+                    )}
+                    {bands && !showPlanStack && (
+                      <Area
+                        type="monotone"
+                        dataKey="mrrBand"
+                        stroke="none"
+                        fill="#9f7aea"
+                        fillOpacity={0.2}
+                        name="MRR P10–P90"
+                      />
+                    )}
+                    {bands && !showPlanStack && (
+                      <Line
+                        type="monotone"
+                        dataKey="mrrP50"
+                        stroke="#d6bcfa"
+                        strokeDasharray="5 5"
+                        dot={false}
+                        name="MRR P50"
+                      />
+                    )}
+                    {hasActuals && (
+                      <Line
+                        type="monotone"
+                        dataKey="actualMrr"
+                        stroke="#f6ad55"
+                        strokeWidth={2}
+                        dot={{ r: 3, fill: '#f6ad55' }}
+                        name="Actual MRR"
+                      />
+                    )}
+                    {priceChangeMarkers.map(marker => (
+                      <ReferenceLine
+                        key={marker.key}
+                        x={marker.x}
+                        stroke={marker.color}
+                        strokeDasharray="4 4"
+                        label={{ value: marker.label, fill: marker.color, position: 'insideTopLeft', fontSize: 12 }}
+                      />
+                    ))}
+                    {(showPlanStack || bands || hasActuals) && <Legend />}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="mt-4 text-sm text-muted-foreground text-center">
+                {showPlanStack ? 'MRR by Plan' : 'Monthly Recurring Revenue Over Time'}
+              </div>
+            </div>
+
+            {/* Why MRR moved over a chosen period */}
+            <MrrBridgeCard projections={projections} periods={periods} period={period} />
+
+            {/* Imported actuals against the plan */}
+            <ActualsPanel state={state} plan={planProjections} startDate={scenario.startDate} onChange={setState} />
+
+            {/* Cash vs Recognized Revenue - only differs with prepaid plans */}
+            {state.plans.some(plan => (plan.billingTermMonths ?? 1) > 1) && (
+              <CashFlowChart periods={periods} period={period} />
+            )}
+
+            {/* Monthly P&L and cash balance */}
+            <ProfitAndLossCard projections={projections} periods={periods} period={period} metrics={metrics} />
+
+            {/* Gross and contribution margin */}
+            <MarginChart periods={periods} period={period} />
+
+            {/* Customers Chart */}
             <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
               <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
-                <span className="text-3xl">📊</span>
-                Monthly Recurring Revenue
+                <span className="text-3xl">👥</span>
+                Customers
               </h3>
               <div className="h-[400px] -mx-2 pr-2">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={projections}>
+                  <LineChart data={chartData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
                     <XAxis 
-                      dataKey="month" 
+                      dataKey={axis.dataKey} 
                       tick={{ fill: '#a0aec0' }}
                       axisLine={{ stroke: '#4a5568' }}
-                      label={{ value: 'Month', position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+                      label={{ value: axis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
                     />
                     <YAxis 
                       tick={{ fill: '#a0aec0' }}
                       axisLine={{ stroke: '#4a5568' }}
                       width={90}
                       tickMargin={5}
-                      tickFormatter={(value) => {
-                        if (value >= 1000000) {
-                          return `$${(value / 1000000).toFixed(1)}M`;
-                        } else if (value >= 1000) {
-                          return `$${(value / 1000).toFixed(0)}K`;
-                        }
-                        return `$${value}`;
-                      }}
+                      tickFormatter={(value) => Number(value).toLocaleString()}
                     />
                     <Tooltip 
-                      formatter={(value) => [`$${Number(value).toLocaleString()}`, 'MRR']}
-                      labelFormatter={(month) => `Month ${month}`}
+                      formatter={(value, name) => [Number(value).toLocaleString(), name]}
+                      labelFormatter={axis.heading}
                       contentStyle={{
                         background: '#1a202c',
                         border: '1px solid #4a5568',
                         borderRadius: '0.5rem',
                       }}
                     />
+                    <Legend />
+                    <Line 
+                      type="monotone" 
+                      dataKey="activeCustomers" 
+                      stroke="#3b82f6" 
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 6, fill: '#3b82f6' }}
+                      name="Active Customers"
+                    />
+                    <Line 
+                      type="monotone" 
+                      dataKey="cumulativeCustomers" 
+                      stroke="#a0aec0" 
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                      dot={false}
+                      name="Acquired (cumulative)"
+                    />
                     <Line 
                       type="monotone" 
-                      dataKey="mrr" 
-                      stroke="#9f7aea" 
+                      dataKey="churnedCustomers" 
+                      stroke="#f87171" 
                       strokeWidth={2}
                       dot={false}
-                      activeDot={{ r: 6, fill: '#9f7aea' }}
-                      name="MRR"
+                      name="Churned This Month"
                     />
+                    {hasActuals && (
+                      <Line
+                        type="monotone"
+                        dataKey="actualActive"
+                        stroke="#f6ad55"
+                        strokeWidth={2}
+                        dot={{ r: 3, fill: '#f6ad55' }}
+                        name="Actual Active"
+                      />
+                    )}
+                    {hasActuals && (
+                      <Line
+                        type="monotone"
+                        dataKey="actualChurned"
+                        stroke="#fbd38d"
+                        strokeDasharray="3 3"
+                        dot={{ r: 3, fill: '#fbd38d' }}
+                        name="Actual Churned"
+                      />
+                    )}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
               <div className="mt-4 text-sm text-muted-foreground text-center">
-                Monthly Recurring Revenue Over Time
+                Active customer base vs. everyone ever acquired
               </div>
             </div>
 
+            {/* Funnel stages - only in funnel acquisition mode */}
+            {state.acquisition.mode === 'funnel' && <FunnelCard scenario={scenario} />}
+
+            {/* Cohort Retention Heatmap */}
+            <CohortHeatmap cohorts={cohorts} scenario={scenario} />
+
             {/* Metrics Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="bg-card border-2 border-purple-500/50 rounded-xl p-6 shadow-xl">
@@ -1032,7 +1454,7 @@ const SaaSCalculator: React.FC = () => {
                   <MetricCard
                     title="Customer LTV"
                     value={`$${metrics.clv.toLocaleString()}`}
-                    subtitle="Lifetime Value"
+                    subtitle="Lifetime gross profit"
                   />
                   <MetricCard
                     title="ARR"
@@ -1042,12 +1464,22 @@ const SaaSCalculator: React.FC = () => {
                   <MetricCard
                     title="Valuation"
                     value={`$${metrics.valuation.toLocaleString()}`}
-                    subtitle="7x ARR"
+                    subtitle="Base case, 3 methods"
                   />
                   <MetricCard
                     title="Payback Period"
                     value={`${metrics.paybackPeriod} mo`}
-                    subtitle="Time to recover CAC"
+                    subtitle="Gross profit to recover CAC"
+                  />
+                  <MetricCard
+                    title="Gross Margin"
+                    value={`${metrics.grossMargin}%`}
+                    subtitle="After cost of revenue"
+                  />
+                  <MetricCard
+                    title="Contribution Margin"
+                    value={`${finalMonth?.contributionMargin ?? 0}%`}
+                    subtitle="Final month, after CAC"
                   />
                 </div>
               </div>
@@ -1067,25 +1499,44 @@ const SaaSCalculator: React.FC = () => {
                   <MetricCard
                     title="NRR"
                     value={`${metrics.nrr}%`}
-                    subtitle="Net Revenue Retention"
+                    subtitle="Trailing 12 months"
                     className={metrics.nrr >= 100 ? 'text-green-500' : 'text-yellow-500'}
                   />
                   <MetricCard
                     title="GRR"
                     value={`${metrics.grr}%`}
-                    subtitle="Gross Revenue Retention"
+                    subtitle="Trailing 12 months, no expansion"
                     className={metrics.grr >= 90 ? 'text-green-500' : 'text-yellow-500'}
                   />
                   <MetricCard
                     title="Rule of 40"
-                    value={`${metrics.ruleOf40}%`}
-                    subtitle={metrics.ruleOf40 >= 40 ? '✅ Excellent' : '📊 Monitor'}
-                    className={metrics.ruleOf40 >= 40 ? 'text-green-500' : 'text-yellow-500'}
+                    value={metrics.ruleOf40 === null ? '—' : `${metrics.ruleOf40}%`}
+                    subtitle={metrics.ruleOf40 === null ? 'Needs over a year of horizon' : metrics.ruleOf40 >= 40 ? '✅ Excellent' : '📊 Monitor'}
+                    className={metrics.ruleOf40 === null ? 'text-muted-foreground' : metrics.ruleOf40 >= 40 ? 'text-green-500' : 'text-yellow-500'}
                   />
                 </div>
               </div>
             </div>
 
+            {/* Metric Methodology - Full Width */}
+            <MethodologyPanel result={{ projections, metrics, cohorts }} scenario={scenario} />
+
+            {/* Per-plan Unit Economics - Full Width */}
+            <PlanEconomicsCard metrics={metrics} finalMonth={finalMonth} />
+
+            {/* Valuation - Full Width */}
+            <ValuationPanel
+              range={metrics.valuationRange}
+              settings={state.valuation}
+              onChange={(valuation) => setState({ ...state, valuation })}
+            />
+
+            {/* Sensitivity Analysis - Full Width */}
+            <SensitivityPanel scenario={scenario} />
+
+            {/* Goal Seek - Full Width */}
+            <GoalSeekPanel scenario={scenario} state={state} onApply={setState} />
+
             {/* Big Picture - Full Width */}
             <div className="mb-6">
               <BigPictureCard metrics={metrics} finalMonth={finalMonth} />
@@ -1093,7 +1544,12 @@ const SaaSCalculator: React.FC = () => {
 
             {/* Insights - Full Width */}
             <div className="mb-6">
-              <InsightsCard metrics={metrics} finalMonth={finalMonth} projections={projections} />
+              <InsightsCard metrics={metrics} finalMonth={finalMonth} projections={projections} state={state} />
+            </div>
+
+            {/* Saved Scenarios & Comparison - Full Width */}
+            <div className="mb-6">
+              <ScenarioLibrary currentState={state} onLoad={setState} />
             </div>
           </div>
         </div>
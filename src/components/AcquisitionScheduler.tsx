@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import { FLAT_SEASONALITY, MONTH_NAMES } from '../lib/acquisition';
+import type { AcquisitionSchedule, AcquisitionStep, MonthData } from '../lib/types';
+import FunnelEditor from './FunnelEditor';
+
+const MODES: { id: AcquisitionSchedule['mode']; label: string }[] = [
+  { id: 'volume', label: 'Customers/month' },
+  { id: 'budget', label: 'Marketing budget' },
+  { id: 'funnel', label: 'Funnel' }
+];
+
+const STEP_UNITS: Record<AcquisitionSchedule['mode'], string> = {
+  volume: 'customers/month',
+  budget: '$/month',
+  funnel: 'visitors/month'
+};
+
+// Picks how new customers arrive: a fixed volume (the customers-per-month
+// control passed as children), a monthly marketing budget spent at the
+// blended CAC or visitors converted through a funnel, shaped over time by
+// growth, seasonality and step changes.
+const AcquisitionScheduler: React.FC<{
+  acquisition: AcquisitionSchedule;
+  cac: number;
+  projections: MonthData[];
+  onChange: (acquisition: AcquisitionSchedule) => void;
+  children: React.ReactNode;
+}> = ({ acquisition, cac, projections, onChange, children }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const update = (changes: Partial<AcquisitionSchedule>) => onChange({ ...acquisition, ...changes });
+  const unit = STEP_UNITS[acquisition.mode];
+
+  const updateStep = (index: number, changes: Partial<AcquisitionStep>) => {
+    update({ steps: acquisition.steps.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  };
+
+  const addStep = () => {
+    const lastMonth = acquisition.steps.reduce((max, s) => Math.max(max, s.month), 0);
+    const value = acquisition.mode === 'budget'
+      ? acquisition.marketingBudget * 2
+      : acquisition.mode === 'funnel' ? acquisition.funnel.visitors * 2 : 100;
+    update({ steps: [...acquisition.steps, { month: lastMonth + 12, value }] });
+  };
+
+  const updateSeason = (index: number, multiplier: number) => {
+    update({ seasonality: acquisition.seasonality.map((m, i) => i === index ? multiplier : m) });
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-foreground mb-2">
+        Customer Acquisition
+      </label>
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => update({ mode: mode.id })}
+            className={`text-xs px-2 py-2 rounded border ${
+              acquisition.mode === mode.id
+                ? 'border-primary bg-primary/10'
+                : 'border-border bg-background hover:bg-primary/10'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {acquisition.mode === 'volume' && children}
+      {acquisition.mode === 'funnel' && (
+        <FunnelEditor funnel={acquisition.funnel} onChange={(funnel) => update({ funnel })} />
+      )}
+      {acquisition.mode === 'budget' && (
+        <div className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-semibold text-foreground">Marketing Spend/Month</span>
+            <span className="text-lg font-bold text-primary">${acquisition.marketingBudget.toLocaleString()}</span>
+          </div>
+          <input
+            type="range"
+            value={acquisition.marketingBudget}
+            onChange={(e) => update({ marketingBudget: Number(e.target.value) })}
+            min={0}
+            max={100000}
+            step={500}
+            className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer accent-purple-500"
+          />
+          <div className="p-3 mt-2 bg-secondary/50 border border-border rounded-lg text-sm text-muted-foreground">
+            {cac > 0
+              ? `≈ ${Math.round(acquisition.marketingBudget / cac).toLocaleString()} customers/month at $${Math.round(cac).toLocaleString()} blended CAC`
+              : 'Set a CAC above $0 to turn spend into customers'}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+      >
+        {showDetails ? '▾' : '▸'} Growth, seasonality & step changes
+      </button>
+
+      {showDetails && (
+        <div className="mt-3 space-y-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-xs text-muted-foreground">Month-over-month growth</span>
+              <span className="text-sm font-bold text-primary">{acquisition.monthlyGrowth}%</span>
+            </div>
+            <input
+              type="range"
+              value={acquisition.monthlyGrowth}
+              onChange={(e) => update({ monthlyGrowth: Number(e.target.value) })}
+              min={-10}
+              max={20}
+              step={0.5}
+              className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer accent-primary"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-xs text-muted-foreground">Seasonal multiplier by calendar month</span>
+              <button
+                onClick={() => update({ seasonality: FLAT_SEASONALITY })}
+                className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+              >
+                Flat
+              </button>
+            </div>
+            <div className="grid grid-cols-6 gap-1">
+              {MONTH_NAMES.map((name, index) => (
+                <label key={name} className="text-xs text-muted-foreground text-center">
+                  {name}
+                  <input
+                    type="number"
+                    value={acquisition.seasonality[index]}
+                    onChange={(e) => updateSeason(index, Math.max(Number(e.target.value), 0))}
+                    min="0"
+                    step="0.1"
+                    className="w-full px-1 py-1 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm text-foreground text-center"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Step changes ({unit} from a month on)</div>
+            {acquisition.steps.map((step, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                <span className="col-span-2 text-xs text-muted-foreground">Month</span>
+                <input
+                  type="number"
+                  value={step.month}
+                  onChange={(e) => updateStep(index, { month: Math.max(Math.round(Number(e.target.value)), 1) })}
+                  min="1"
+                  className="col-span-3 px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+                />
+                <input
+                  type="number"
+                  value={step.value}
+                  onChange={(e) => updateStep(index, { value: Math.max(Number(e.target.value), 0) })}
+                  min="0"
+                  className="col-span-5 px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+                />
+                <button
+                  onClick={() => update({ steps: acquisition.steps.filter((_, i) => i !== index) })}
+                  className="col-span-2 px-2 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition-colors text-xs"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addStep}
+              className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+            >
+              + Add step
+            </button>
+          </div>
+
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">New customers per month</div>
+            <ResponsiveContainer width="100%" height={80}>
+              <BarChart data={projections}>
+                <XAxis dataKey="date" hide />
+                <Tooltip
+                  contentStyle={{ background: '#1a202c', border: '1px solid #4a5568', borderRadius: '8px' }}
+                  formatter={(value) => [Number(value).toLocaleString(), 'New customers']}
+                />
+                <Bar dataKey="newCustomers" fill="#8b5cf6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AcquisitionScheduler;
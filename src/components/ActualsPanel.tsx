@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { applyFit, fitActuals, parseActualsCsv, varianceRows } from '../lib/actuals';
+import { formatCurrency, formatCurrencyTick } from '../lib/format';
+import type { CalculatorState, MonthData } from '../lib/types';
+
+const buttonClass = 'text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors';
+
+const formatValue = (value: number, format: 'currency' | 'count') =>
+  format === 'currency' ? formatCurrency(value) : Math.round(value).toLocaleString();
+
+const formatRate = (value: number | null, suffix = '%') =>
+  value === null ? '—' : `${Math.round(value * 10) / 10}${suffix}`;
+
+// Real monthly results against the plan: import, variance and re-fitting
+const ActualsPanel: React.FC<{
+  state: CalculatorState;
+  // The projection without actuals driving it, i.e. the original plan
+  plan: MonthData[];
+  startDate: string;
+  onChange: (state: CalculatorState) => void;
+}> = ({ state, plan, startDate, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { actuals } = state;
+
+  const importFile = async (file: File) => {
+    const parsed = parseActualsCsv(await file.text());
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+    setError(null);
+    onChange({ ...state, actuals: { ...actuals, months: parsed.months } });
+  };
+
+  const rows = varianceRows(plan, actuals.months, startDate);
+  const fields = [...new Map(rows.flatMap(row => row.cells.map(cell => [cell.field.key, cell.field]))).values()];
+  const mrrVariance = rows.flatMap(row => {
+    const cell = row.cells.find(c => c.field.key === 'mrr');
+    return cell ? [{ month: row.month, date: row.date, variance: cell.variance }] : [];
+  });
+  const fit = fitActuals(actuals.months);
+  const lastActual = actuals.months[actuals.months.length - 1];
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">📋</span>
+          Plan vs Actual
+        </h3>
+        <div className="flex gap-2">
+          <label className={`${buttonClass} cursor-pointer`}>
+            Import CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {actuals.months.length > 0 && (
+            <button onClick={() => onChange({ ...state, actuals: { months: [], continueFromActuals: false } })} className={buttonClass}>
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg border bg-red-500/10 border-red-500/50 text-sm text-foreground">{error}</div>
+      )}
+
+      {actuals.months.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Import a CSV with one row per month: a <span className="font-mono">Month</span> column (YYYY-MM) and any
+          of <span className="font-mono">MRR</span>, <span className="font-mono">New Customers</span>,{' '}
+          <span className="font-mono">Churned</span>, <span className="font-mono">Active Customers</span>,{' '}
+          <span className="font-mono">Expansion</span> and <span className="font-mono">Costs</span>. The projection
+          then starts at your first real month and the actuals are drawn on the charts.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="text-sm text-muted-foreground">
+              {actuals.months.length} months imported, {actuals.months[0].date} to {lastActual.date}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={actuals.continueFromActuals}
+                onChange={(e) => onChange({ ...state, actuals: { ...actuals, continueFromActuals: e.target.checked } })}
+              />
+              Continue the forecast from {lastActual.date}
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 p-4 mb-6 bg-secondary rounded-lg text-sm">
+            <div className="flex flex-wrap gap-6">
+              <div>
+                <div className="text-xs text-muted-foreground">Actual churn</div>
+                <div className="font-semibold text-foreground">{formatRate(fit.churnRate)} / month</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Recent new customers</div>
+                <div className="font-semibold text-foreground">{formatRate(fit.customersPerMonth, '')} / month</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Actual expansion</div>
+                <div className="font-semibold text-foreground">{formatRate(fit.expansionRate)} / month</div>
+              </div>
+            </div>
+            <button onClick={() => onChange(applyFit(state, fit))} className={buttonClass}>
+              Re-fit inputs
+            </button>
+          </div>
+
+          {mrrVariance.length > 0 && (
+            <>
+              <div className="h-[240px] -mx-2 pr-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={mrrVariance}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+                    <XAxis dataKey="date" tick={{ fill: '#a0aec0' }} axisLine={{ stroke: '#4a5568' }} />
+                    <YAxis
+                      tick={{ fill: '#a0aec0' }}
+                      axisLine={{ stroke: '#4a5568' }}
+                      width={90}
+                      tickMargin={5}
+                      tickFormatter={formatCurrencyTick}
+                    />
+                    <Tooltip
+                      formatter={(value) => [formatCurrency(Number(value)), 'MRR vs plan']}
+                      contentStyle={{
+                        background: '#1a202c',
+                        border: '1px solid #4a5568',
+                        borderRadius: '0.5rem',
+                      }}
+                    />
+                    <ReferenceLine y={0} stroke="#a0aec0" />
+                    <Bar dataKey="variance" name="MRR vs plan">
+                      {mrrVariance.map(d => <Cell key={d.month} fill={d.variance >= 0 ? '#34d399' : '#f87171'} />)}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="mt-2 mb-6 text-sm text-muted-foreground text-center">MRR variance against the plan</div>
+            </>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left py-2 pr-2">Month</th>
+                  {fields.map(field => (
+                    <th key={field.key} className="text-right py-2 px-2">{field.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.month} className="border-t border-border">
+                    <td className="py-2 pr-2 text-muted-foreground">{row.date}</td>
+                    {fields.map(field => {
+                      const cell = row.cells.find(c => c.field.key === field.key);
+                      if (!cell) return <td key={field.key} className="py-2 px-2 text-right text-muted-foreground">—</td>;
+                      const better = field.higherIsBetter ? cell.variance > 0 : cell.variance < 0;
+                      return (
+                        <td key={field.key} className="py-2 px-2 text-right">
+                          <div className="text-foreground">{formatValue(cell.actual, field.format)}</div>
+                          <div className={`text-xs ${cell.variance === 0 ? 'text-muted-foreground' : better ? 'text-green-500' : 'text-red-400'}`}>
+                            {cell.variance >= 0 ? '+' : ''}{formatValue(cell.variance, field.format)}
+                            {cell.percent !== null && ` (${cell.percent >= 0 ? '+' : ''}${Math.round(cell.percent)}%)`}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 text-sm text-muted-foreground text-center">
+            Actual values, with the difference from plan below each
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ActualsPanel;
@@ -0,0 +1,89 @@
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { formatCurrencyTick } from '../lib/format';
+import { periodAxis } from '../lib/periods';
+import type { PeriodData, PeriodType } from '../lib/periods';
+
+// Cash view next to the recognized (GAAP-style) revenue view. Only differs
+// from MRR when some plans bill for more than a month at a time.
+const CashFlowChart: React.FC<{
+  periods: PeriodData[];
+  period: PeriodType;
+}> = ({ periods, period }) => {
+  const axis = periodAxis(period);
+  const finalMonth = periods[periods.length - 1];
+  const totalCash = periods.reduce((sum, m) => sum + m.cashCollected, 0);
+  const totalRecognized = periods.reduce((sum, m) => sum + m.recognizedRevenue, 0);
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+        <span className="text-3xl">💵</span>
+        Cash vs. Recognized Revenue
+      </h3>
+      <div className="h-[400px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={periods}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis
+              dataKey={axis.dataKey}
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              label={{ value: axis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={formatCurrencyTick}
+            />
+            <Tooltip
+              formatter={(value, name) => [`$${Number(value).toLocaleString()}`, name]}
+              labelFormatter={axis.heading}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <Bar dataKey="cashCollected" fill="#10b981" fillOpacity={0.6} name="Cash Collected" />
+            <Line
+              type="monotone"
+              dataKey="recognizedRevenue"
+              stroke="#9f7aea"
+              strokeWidth={2}
+              dot={false}
+              name="Recognized Revenue"
+            />
+            <Line
+              type="monotone"
+              dataKey="deferredRevenue"
+              stroke="#f59e0b"
+              strokeWidth={2}
+              strokeDasharray="6 3"
+              dot={false}
+              name="Deferred Revenue Balance"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-4 grid grid-cols-3 gap-4 text-center text-sm">
+        <div>
+          <div className="text-muted-foreground">Total cash collected</div>
+          <div className="font-semibold text-foreground">${totalCash.toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Total revenue recognized</div>
+          <div className="font-semibold text-foreground">${totalRecognized.toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Deferred revenue at end</div>
+          <div className="font-semibold text-foreground">${(finalMonth?.deferredRevenue ?? 0).toLocaleString()}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CashFlowChart;
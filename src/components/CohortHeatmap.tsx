@@ -0,0 +1,78 @@
+import type { CohortData, Scenario } from '../lib/types';
+import { monthLabel } from '../lib/projections';
+
+const MAX_COHORTS = 24;
+const MAX_AGE = 24;
+
+// Blue at full retention fading towards the card background as a cohort churns
+const cellStyle = (percent: number) => ({
+  background: `rgba(59, 130, 246, ${Math.max(percent, 0) / 100 * 0.85 + 0.05})`
+});
+
+const CohortHeatmap: React.FC<{
+  cohorts: CohortData[];
+  scenario: Scenario;
+}> = ({ cohorts, scenario }) => {
+  // The starting base (cohort 0) has no acquisition month to line up from
+  const rows = cohorts.filter(c => c.month > 0 && c.acquired > 0).slice(0, MAX_COHORTS);
+  const ages = Math.min(MAX_AGE, scenario.months);
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-2 flex items-center gap-2">
+        <span className="text-3xl">🔥</span>
+        Cohort Retention
+      </h3>
+      <p className="text-sm text-muted-foreground mb-6">
+        Share of each monthly cohort still active after each month of its life
+        (first {rows.length} cohorts, first {ages} months).
+      </p>
+      {rows.length === 0 ? (
+        <div className="p-3 bg-secondary/50 border border-border rounded-lg text-sm text-muted-foreground">
+          No customers acquired yet.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="px-2 py-1 text-left font-semibold">Cohort</th>
+                <th className="px-2 py-1 text-right font-semibold">Acquired</th>
+                {Array.from({ length: ages }, (_, i) => (
+                  <th key={i} className="px-1 py-1 font-semibold">M{i + 1}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(cohort => (
+                <tr key={cohort.month}>
+                  <td className="px-2 py-1 text-muted-foreground whitespace-nowrap">
+                    {monthLabel(scenario.startDate, cohort.month - 1)}
+                  </td>
+                  <td className="px-2 py-1 text-right text-foreground">{Math.round(cohort.acquired).toLocaleString()}</td>
+                  {Array.from({ length: ages }, (_, i) => {
+                    const retained = cohort.retained[i];
+                    if (retained === undefined) return <td key={i} />;
+                    const percent = (retained / cohort.acquired) * 100;
+                    return (
+                      <td
+                        key={i}
+                        className="px-1 py-1 text-center text-foreground rounded"
+                        style={cellStyle(percent)}
+                        title={`${Math.round(retained).toLocaleString()} customers`}
+                      >
+                        {percent.toFixed(0)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CohortHeatmap;
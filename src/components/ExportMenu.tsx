@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { buildExportSheet, downloadBlob, toCsv, toXlsx } from '../lib/export';
+import type { ProjectionResult, Scenario } from '../lib/types';
+
+const ExportMenu: React.FC<{
+  scenario: Scenario;
+  result: ProjectionResult;
+}> = ({ scenario, result }) => {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const filename = `saas-projection-${scenario.startDate.slice(0, 7)}`;
+
+  const exportCsv = () => {
+    const csv = toCsv(buildExportSheet(scenario, result));
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+  };
+
+  const exportXlsx = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      downloadBlob(await toXlsx(buildExportSheet(scenario, result)), `${filename}.xlsx`);
+    } catch {
+      // Usually the spreadsheet library failing to load, e.g. after a redeploy
+      setError('The XLSX file could not be created. Reload the page and try again, or export CSV.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={exportCsv}
+        disabled={result.projections.length === 0}
+        className="text-sm px-4 py-2 rounded-lg bg-secondary border border-border hover:bg-primary/10 transition-colors"
+      >
+        ⬇️ Export CSV
+      </button>
+      <button
+        onClick={exportXlsx}
+        disabled={exporting || result.projections.length === 0}
+        className="text-sm px-4 py-2 rounded-lg bg-secondary border border-border hover:bg-primary/10 transition-colors"
+      >
+        {exporting ? 'Preparing…' : '⬇️ Export XLSX'}
+      </button>
+      {error && <span className="self-center text-sm text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,235 @@
+import type { FinancePlan, FixedCost, FundingEvent, Hire, HireTrigger } from '../lib/types';
+
+const fieldClass = 'w-full px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+const removeClass = 'col-span-1 px-1 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition-colors text-xs';
+const addClass = 'text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors';
+
+const TRIGGER_TYPES: { type: HireTrigger['type']; label: string }[] = [
+  { type: 'month', label: 'From month' },
+  { type: 'customers', label: 'At customers' },
+  { type: 'mrr', label: 'At MRR ($)' }
+];
+
+const triggerValue = (trigger: HireTrigger): number => {
+  switch (trigger.type) {
+    case 'month':
+      return trigger.month;
+    case 'customers':
+      return trigger.activeCustomers;
+    case 'mrr':
+      return trigger.mrr;
+  }
+};
+
+const makeTrigger = (type: HireTrigger['type'], value: number): HireTrigger => {
+  switch (type) {
+    case 'month':
+      return { type, month: value };
+    case 'customers':
+      return { type, activeCustomers: value };
+    case 'mrr':
+      return { type, mrr: value };
+  }
+};
+
+const ColumnLabels: React.FC<{ labels: [string, string][] }> = ({ labels }) => (
+  <div className="grid grid-cols-12 gap-2 mb-1">
+    {labels.map(([label, span]) => (
+      <span key={label} className={`${span} text-xs text-muted-foreground`}>{label}</span>
+    ))}
+  </div>
+);
+
+// Fixed costs, hiring plan, starting cash and funding rounds
+const FinancePlanEditor: React.FC<{
+  finance: FinancePlan;
+  onChange: (finance: FinancePlan) => void;
+}> = ({ finance, onChange }) => {
+  const update = (changes: Partial<FinancePlan>) => onChange({ ...finance, ...changes });
+
+  const updateCost = (id: string, changes: Partial<FixedCost>) =>
+    update({ fixedCosts: finance.fixedCosts.map(c => c.id === id ? { ...c, ...changes } : c) });
+  const updateHire = (id: string, changes: Partial<Hire>) =>
+    update({ hires: finance.hires.map(h => h.id === id ? { ...h, ...changes } : h) });
+  const updateFunding = (id: string, changes: Partial<FundingEvent>) =>
+    update({ fundingEvents: finance.fundingEvents.map(f => f.id === id ? { ...f, ...changes } : f) });
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-foreground mb-4 mt-8 pt-6 border-t border-border">
+        Fixed Costs & Funding
+      </h3>
+
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-foreground mb-2">Starting Cash</label>
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
+          <input
+            type="number"
+            value={finance.startingCash}
+            onChange={(e) => update({ startingCash: Number(e.target.value) })}
+            min="0"
+            step="1000"
+            className={`${fieldClass} pl-7`}
+          />
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-foreground mb-2">Fixed Costs</label>
+        {finance.fixedCosts.length > 0 && (
+          <ColumnLabels labels={[['Item', 'col-span-4'], ['$/month', 'col-span-3'], ['Start', 'col-span-2'], ['Growth %/yr', 'col-span-2']]} />
+        )}
+        {finance.fixedCosts.map(cost => (
+          <div key={cost.id} className="grid grid-cols-12 gap-2 mb-2">
+            <input
+              type="text"
+              value={cost.name}
+              onChange={(e) => updateCost(cost.id, { name: e.target.value })}
+              placeholder="Rent"
+              className={`col-span-4 ${fieldClass}`}
+            />
+            <input
+              type="number"
+              value={cost.monthlyAmount}
+              onChange={(e) => updateCost(cost.id, { monthlyAmount: Number(e.target.value) })}
+              min="0"
+              className={`col-span-3 ${fieldClass}`}
+            />
+            <input
+              type="number"
+              value={cost.startMonth}
+              onChange={(e) => updateCost(cost.id, { startMonth: Math.max(Math.round(Number(e.target.value)), 1) })}
+              min="1"
+              className={`col-span-2 ${fieldClass}`}
+            />
+            <input
+              type="number"
+              value={cost.annualGrowth}
+              onChange={(e) => updateCost(cost.id, { annualGrowth: Number(e.target.value) })}
+              className={`col-span-2 ${fieldClass}`}
+            />
+            <button
+              onClick={() => update({ fixedCosts: finance.fixedCosts.filter(c => c.id !== cost.id) })}
+              className={removeClass}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({
+            fixedCosts: [...finance.fixedCosts, { id: Date.now().toString(), name: '', monthlyAmount: 1000, startMonth: 1, annualGrowth: 0 }]
+          })}
+          className={addClass}
+        >
+          + Add fixed cost
+        </button>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-foreground mb-2">Hiring Plan</label>
+        {finance.hires.length > 0 && (
+          <ColumnLabels labels={[['Role', 'col-span-3'], ['Salary/mo', 'col-span-3'], ['Hire', 'col-span-3'], ['When', 'col-span-2']]} />
+        )}
+        {finance.hires.map(hire => (
+          <div key={hire.id} className="grid grid-cols-12 gap-2 mb-2">
+            <input
+              type="text"
+              value={hire.role}
+              onChange={(e) => updateHire(hire.id, { role: e.target.value })}
+              placeholder="Engineer"
+              className={`col-span-3 ${fieldClass}`}
+            />
+            <input
+              type="number"
+              value={hire.monthlySalary}
+              onChange={(e) => updateHire(hire.id, { monthlySalary: Number(e.target.value) })}
+              min="0"
+              className={`col-span-3 ${fieldClass}`}
+            />
+            <select
+              value={hire.trigger.type}
+              onChange={(e) => updateHire(hire.id, {
+                trigger: makeTrigger(e.target.value as HireTrigger['type'], triggerValue(hire.trigger))
+              })}
+              className={`col-span-3 ${fieldClass}`}
+            >
+              {TRIGGER_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+            </select>
+            <input
+              type="number"
+              value={triggerValue(hire.trigger)}
+              onChange={(e) => updateHire(hire.id, { trigger: makeTrigger(hire.trigger.type, Number(e.target.value)) })}
+              min="0"
+              className={`col-span-2 ${fieldClass}`}
+            />
+            <button
+              onClick={() => update({ hires: finance.hires.filter(h => h.id !== hire.id) })}
+              className={removeClass}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({
+            hires: [...finance.hires, { id: Date.now().toString(), role: '', monthlySalary: 8000, trigger: { type: 'month', month: 1 } }]
+          })}
+          className={addClass}
+        >
+          + Add hire
+        </button>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-foreground mb-2">Funding Events</label>
+        {finance.fundingEvents.length > 0 && (
+          <ColumnLabels labels={[['Round', 'col-span-5'], ['Month', 'col-span-2'], ['Amount', 'col-span-4']]} />
+        )}
+        {finance.fundingEvents.map(event => (
+          <div key={event.id} className="grid grid-cols-12 gap-2 mb-2">
+            <input
+              type="text"
+              value={event.label}
+              onChange={(e) => updateFunding(event.id, { label: e.target.value })}
+              placeholder="Seed"
+              className={`col-span-5 ${fieldClass}`}
+            />
+            <input
+              type="number"
+              value={event.month}
+              onChange={(e) => updateFunding(event.id, { month: Math.max(Math.round(Number(e.target.value)), 1) })}
+              min="1"
+              className={`col-span-2 ${fieldClass}`}
+            />
+            <input
+              type="number"
+              value={event.amount}
+              onChange={(e) => updateFunding(event.id, { amount: Number(e.target.value) })}
+              min="0"
+              step="10000"
+              className={`col-span-4 ${fieldClass}`}
+            />
+            <button
+              onClick={() => update({ fundingEvents: finance.fundingEvents.filter(f => f.id !== event.id) })}
+              className={removeClass}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({
+            fundingEvents: [...finance.fundingEvents, { id: Date.now().toString(), label: '', month: 1, amount: 100000 }]
+          })}
+          className={addClass}
+        >
+          + Add funding
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FinancePlanEditor;
@@ -0,0 +1,81 @@
+import { projectFunnel } from '../lib/acquisition';
+import { formatCurrency } from '../lib/format';
+import type { Scenario } from '../lib/types';
+
+const STAGE_COLORS = ['#8b5cf6', '#7c3aed', '#6d28d9', '#10b981'];
+
+// Visitors through signup and trial to paid over the whole horizon, drawn as
+// a funnel, with what the conversions cost and the free users left behind
+const FunnelCard: React.FC<{ scenario: Scenario }> = ({ scenario }) => {
+  const months = projectFunnel(scenario);
+  const total = (value: (month: (typeof months)[number]) => number) =>
+    months.reduce((sum, month) => sum + value(month), 0);
+  const stages = [
+    { label: 'Visitors', value: total(m => m.visitors) },
+    { label: 'Signups', value: total(m => m.signups) },
+    { label: 'Trials', value: total(m => m.trials) },
+    { label: 'Paid', value: total(m => m.converted) }
+  ];
+  const spend = total(m => m.spend);
+  const finalMonth = months[months.length - 1];
+  const top = stages[0].value;
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-2 flex items-center gap-2">
+        <span className="text-3xl">🔻</span>
+        Acquisition Funnel
+      </h3>
+      <p className="text-sm text-muted-foreground mb-6">
+        Totals over {scenario.months} months. Trials still running at the end have not converted yet.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {stages.map((stage, index) => {
+          const previous = stages[index - 1];
+          const width = top > 0 ? Math.max((stage.value / top) * 100, 2) : 2;
+          return (
+            <div key={stage.label}>
+              {previous && (
+                <div className="text-xs text-muted-foreground text-center mb-1">
+                  ↓ {previous.value > 0 ? `${Math.round((stage.value / previous.value) * 1000) / 10}%` : '—'}
+                </div>
+              )}
+              <div className="flex items-center gap-4">
+                <span className="w-20 text-sm text-muted-foreground">{stage.label}</span>
+                <div className="flex-1 flex justify-center">
+                  <div
+                    className="h-10 rounded"
+                    style={{ width: `${width}%`, background: STAGE_COLORS[index] }}
+                  />
+                </div>
+                <span className="w-24 text-right text-sm font-semibold text-foreground">
+                  {Math.round(stage.value).toLocaleString()}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          ['Marketing spend', formatCurrency(spend)],
+          ['CAC (spend ÷ paid)', stages[3].value > 0 ? formatCurrency(spend / stages[3].value) : '—'],
+          ['Free users now', Math.round(finalMonth?.freeUsers ?? 0).toLocaleString()],
+          [
+            'Free user cost',
+            `${formatCurrency((finalMonth?.freeUsers ?? 0) * scenario.acquisition.funnel.freeUserCost)}/mo`
+          ]
+        ].map(([label, value]) => (
+          <div key={label} className="p-4 bg-secondary rounded-lg">
+            <div className="text-xs text-muted-foreground mb-1">{label}</div>
+            <div className="text-lg font-bold text-foreground">{value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FunnelCard;
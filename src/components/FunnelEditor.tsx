@@ -0,0 +1,52 @@
+import { funnelCac, funnelConversion } from '../lib/acquisition';
+import type { FunnelSettings } from '../lib/types';
+
+const fieldClass = 'w-full px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+
+const FIELDS: { key: keyof FunnelSettings; label: string; unit: string; step: number }[] = [
+  { key: 'visitors', label: 'Visitors', unit: '/month', step: 1000 },
+  { key: 'signupRate', label: 'Visitor → signup', unit: '%', step: 0.5 },
+  { key: 'trialRate', label: 'Signup → trial', unit: '%', step: 1 },
+  { key: 'paidRate', label: 'Trial → paid', unit: '%', step: 1 },
+  { key: 'trialDays', label: 'Trial length', unit: 'days', step: 1 },
+  { key: 'costPerVisitor', label: 'Cost per visitor', unit: '$', step: 0.05 },
+  { key: 'freeUserCost', label: 'Free user cost', unit: '$/month', step: 0.05 },
+  { key: 'freeUserChurn', label: 'Free user churn', unit: '%/month', step: 1 }
+];
+
+// Top-of-funnel volume, stage conversion rates, trial length and what
+// visitors and free users cost
+const FunnelEditor: React.FC<{
+  funnel: FunnelSettings;
+  onChange: (funnel: FunnelSettings) => void;
+}> = ({ funnel, onChange }) => {
+  const cac = funnelCac(funnel);
+  const customers = funnel.visitors * funnelConversion(funnel);
+
+  return (
+    <div className="mb-6">
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map(field => (
+          <label key={field.key} className="text-xs text-muted-foreground">
+            {field.label} ({field.unit})
+            <input
+              type="number"
+              value={funnel[field.key]}
+              onChange={(e) => onChange({ ...funnel, [field.key]: Math.max(Number(e.target.value), 0) })}
+              min="0"
+              step={field.step}
+              className={`${fieldClass} mt-1 text-foreground`}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="p-3 mt-3 bg-secondary/50 border border-border rounded-lg text-sm text-muted-foreground">
+        {customers > 0
+          ? `≈ ${Math.round(customers).toLocaleString()} customers/month at $${Math.round(cac).toLocaleString()} CAC (spend ÷ converted)`
+          : 'Every stage needs a conversion rate above 0% to produce customers'}
+      </div>
+    </div>
+  );
+};
+
+export default FunnelEditor;
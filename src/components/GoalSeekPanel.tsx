@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useGoalSeek } from '../hooks/useGoalSeek';
+import { GOAL_INPUTS, GOAL_TARGETS, goalInputsFor, plansOverriding } from '../lib/goalSeek';
+import type { GoalInput } from '../lib/goalSeek';
+import type { CalculatorState, Scenario } from '../lib/types';
+
+const inputClass = 'w-full px-3 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+
+const OVERRIDE_LABELS: Record<NonNullable<GoalInput['planOverride']>, string> = {
+  churnRate: 'churn rate',
+  cac: 'CAC',
+  expansionRate: 'expansion rate'
+};
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const GoalSeekPanel: React.FC<{
+  scenario: Scenario;
+  state: CalculatorState;
+  onApply: (state: CalculatorState) => void;
+}> = ({ scenario, state, onApply }) => {
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [goal, setGoal] = useState(50000);
+  const [chosenDeadline, setDeadline] = useState(24);
+  // A shorter horizon pulls the deadline in with it
+  const deadline = Math.min(chosenDeadline, scenario.months);
+  const [inputId, setInputId] = useState(GOAL_INPUTS[0].id);
+  const { solve, clear, solved, solving, error } = useGoalSeek();
+  // An answer only holds for the inputs it was solved against
+  const result = solved?.request.scenario === scenario ? solved.result : null;
+
+  const target = GOAL_TARGETS[targetIndex];
+  // Switching acquisition mode falls back to the first input still offered
+  const inputs = goalInputsFor(state);
+  const input = inputs.find(i => i.id === inputId) ?? inputs[0];
+  const overriding = plansOverriding(state, input);
+  const withUnits = (value: number) => `${input.prefix ?? ''}${formatNumber(value)}${input.suffix ?? ''}`;
+
+  // Any change to the question makes the last answer stale
+  const reset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    clear();
+  };
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+        <span className="text-3xl">🎯</span>
+        Goal Seek
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Reach</div>
+          <select value={targetIndex} onChange={(e) => reset(setTargetIndex)(Number(e.target.value))} className={inputClass}>
+            {GOAL_TARGETS.map((t, index) => <option key={t.key} value={index}>{t.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Of at least</div>
+          <input
+            type="number"
+            value={goal}
+            onChange={(e) => reset(setGoal)(Number(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">By month</div>
+          <input
+            type="number"
+            value={target.source === 'month' ? deadline : scenario.months}
+            onChange={(e) => reset(setDeadline)(Math.min(Math.max(Math.round(Number(e.target.value)), 1), scenario.months))}
+            disabled={target.source === 'metric'}
+            min="1"
+            max={scenario.months}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">By changing</div>
+          <select value={input.id} onChange={(e) => reset(setInputId)(e.target.value)} className={inputClass}>
+            {inputs.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {overriding.length > 0 && (
+        <p className="text-xs text-muted-foreground mb-4">
+          {overriding.map(plan => plan.name).join(', ')} {overriding.length === 1 ? 'sets its' : 'set their'} own{' '}
+          {OVERRIDE_LABELS[input.planOverride!]}, which the solve leaves as it is.
+        </p>
+      )}
+
+      <button
+        onClick={() => solve({ scenario, targetIndex, deadlineMonth: deadline, inputId: input.id, goal })}
+        disabled={solving}
+        className="px-4 py-2 rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-semibold disabled:opacity-50"
+      >
+        {solving ? 'Solving…' : 'Solve'}
+      </button>
+
+      {error && (
+        <div className="mt-4 p-3 rounded-lg border bg-red-500/10 border-red-500/50 text-sm text-foreground">{error}</div>
+      )}
+
+      {result && (
+        <div className={`mt-4 p-4 rounded-lg border ${result.feasible ? 'bg-green-500/10 border-green-500/50' : 'bg-red-500/10 border-red-500/50'}`}>
+          {result.feasible ? (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm text-foreground">
+                {input.label} of <span className="font-bold text-primary">{withUnits(result.value)}</span> reaches{' '}
+                {target.label} of {formatNumber(result.achieved)}
+                {target.source === 'month' && ` by month ${deadline}`}
+                <span className="text-muted-foreground"> (currently {withUnits(input.get(state))})</span>
+              </div>
+              <button
+                onClick={() => onApply(input.set(state, result.value))}
+                className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+          ) : (
+            <div className="text-sm text-foreground">
+              {result.reason === 'no-effect'
+                ? `${input.label} does not change ${target.label}, which stays at ${formatNumber(result.achieved)}.`
+                : `Not reachable: even at ${withUnits(result.best)} (the slider limit) ${target.label} only gets to ${formatNumber(result.achieved)}.`}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalSeekPanel;
@@ -0,0 +1,55 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { periodAxis } from '../lib/periods';
+import type { PeriodData, PeriodType } from '../lib/periods';
+
+// Share of each period's revenue left after cost of revenue (gross) and after
+// acquisition spend as well (contribution)
+const MarginChart: React.FC<{
+  periods: PeriodData[];
+  period: PeriodType;
+}> = ({ periods, period }) => {
+  const axis = periodAxis(period);
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+        <span className="text-3xl">📐</span>
+        Gross & Contribution Margin
+      </h3>
+      <div className="h-[300px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={periods}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis
+              dataKey={axis.dataKey}
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              label={{ value: axis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={(value: number) => `${value}%`}
+            />
+            <Tooltip
+              formatter={(value, name) => [`${value}%`, name]}
+              labelFormatter={axis.heading}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <Line type="monotone" dataKey="grossMargin" stroke="#10b981" strokeWidth={2} dot={false} name="Gross Margin" />
+            <Line type="monotone" dataKey="contributionMargin" stroke="#f59e0b" strokeWidth={2} dot={false} name="Contribution Margin" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default MarginChart;
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { explainMetrics } from '../lib/methodology';
+import type { ProjectionResult, Scenario } from '../lib/types';
+
+// Formula and inputs behind each summary metric, one at a time
+const MethodologyPanel: React.FC<{
+  result: ProjectionResult;
+  scenario: Scenario;
+}> = ({ result, scenario }) => {
+  const explanations = explainMetrics(result, scenario);
+  const [selectedId, setSelectedId] = useState('nrr');
+  const selected = explanations.find(e => e.id === selectedId) ?? explanations[0];
+
+  if (!selected) return null;
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+        <span className="text-3xl">📐</span>
+        How Metrics Are Calculated
+      </h3>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {explanations.map(explanation => (
+          <button
+            key={explanation.id}
+            onClick={() => setSelectedId(explanation.id)}
+            className={`text-xs px-2 py-1 rounded border ${
+              explanation.id === selected.id ? 'border-primary bg-primary/10' : 'border-border bg-background hover:bg-primary/10'
+            }`}
+          >
+            {explanation.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-baseline justify-between gap-4 mb-2">
+        <div className="text-lg font-bold text-foreground">{selected.label}</div>
+        <div className="text-2xl font-bold text-primary">{selected.value}</div>
+      </div>
+      <div className="p-3 mb-4 bg-secondary rounded-lg font-mono text-sm text-foreground">{selected.formula}</div>
+      <table className="w-full text-sm">
+        <tbody>
+          {selected.inputs.map(input => (
+            <tr key={input.label} className="border-t border-border">
+              <td className="py-2 pr-2 text-muted-foreground">{input.label}</td>
+              <td className="py-2 text-right text-foreground">{input.value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {selected.note && <div className="mt-4 text-sm text-muted-foreground">{selected.note}</div>}
+    </div>
+  );
+};
+
+export default MethodologyPanel;
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatCurrency, formatCurrencyTick } from '../lib/format';
+import { MRR_MOVEMENTS, mrrBridge, quickRatio } from '../lib/mrrBridge';
+import type { PeriodData, PeriodType } from '../lib/periods';
+import type { MonthData } from '../lib/types';
+
+const WHOLE_PROJECTION = 'all';
+const TOTAL_COLOR = '#9f7aea';
+
+// Waterfall from the MRR going into a period to the MRR at its end, one bar
+// per kind of movement, for any period in the current view or the whole
+// projection
+const MrrBridgeCard: React.FC<{
+  projections: MonthData[];
+  periods: PeriodData[];
+  period: PeriodType;
+}> = ({ projections, periods, period }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const options = [
+    ...periods.map(p => ({
+      key: `${p.firstMonth}-${p.month}`,
+      label: period === 'month' ? `Month ${p.month} (${p.label})` : p.label,
+      firstMonth: p.firstMonth,
+      lastMonth: p.month
+    })),
+    { key: WHOLE_PROJECTION, label: 'Whole projection', firstMonth: 1, lastMonth: projections.length }
+  ];
+  // Defaults to the latest period, and falls back to it when the view changes
+  const current = options.find(o => o.key === selected) ?? options[Math.max(options.length - 2, 0)];
+  const bridge = mrrBridge(projections, current.firstMonth, current.lastMonth);
+  const ratio = quickRatio(bridge.movements);
+
+  let running = bridge.openingMrr;
+  const bars = [
+    { name: 'Opening', base: 0, value: bridge.openingMrr, color: TOTAL_COLOR },
+    ...MRR_MOVEMENTS.map(movement => {
+      const amount = bridge.movements[movement.key];
+      const base = movement.sign > 0 ? running : running - amount;
+      running += movement.sign * amount;
+      return { name: movement.label, base, value: amount, color: movement.color };
+    }),
+    { name: 'Closing', base: 0, value: bridge.closingMrr, color: TOTAL_COLOR }
+  ];
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">🌉</span>
+          MRR Bridge
+        </h3>
+        <select
+          value={current.key}
+          onChange={(e) => setSelected(e.target.value)}
+          className="px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+        >
+          {options.map(option => (
+            <option key={option.key} value={option.key}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="h-[300px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bars}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis dataKey="name" tick={{ fill: '#a0aec0' }} axisLine={{ stroke: '#4a5568' }} />
+            <YAxis
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={formatCurrencyTick}
+            />
+            <Tooltip
+              formatter={(value) => [formatCurrency(Number(value)), 'MRR']}
+              cursor={{ fill: 'rgba(159, 122, 234, 0.1)' }}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Bar dataKey="base" stackId="bridge" fill="transparent" tooltipType="none" />
+            <Bar dataKey="value" stackId="bridge">
+              {bars.map(bar => <Cell key={bar.name} fill={bar.color} />)}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mt-6 text-sm">
+        {MRR_MOVEMENTS.map(movement => (
+          <div key={movement.key} className="p-3 bg-secondary rounded-lg">
+            <div className="text-xs text-muted-foreground mb-1">{movement.label}</div>
+            <div className="font-semibold" style={{ color: movement.color }}>
+              {movement.sign > 0 ? '+' : '−'}{formatCurrency(bridge.movements[movement.key])}
+            </div>
+          </div>
+        ))}
+        <div className="p-3 bg-secondary rounded-lg">
+          <div className="text-xs text-muted-foreground mb-1">Net change</div>
+          <div className="font-semibold text-foreground">{formatCurrency(bridge.closingMrr - bridge.openingMrr)}</div>
+        </div>
+        <div className="p-3 bg-secondary rounded-lg">
+          <div className="text-xs text-muted-foreground mb-1">Quick Ratio</div>
+          <div className={`font-semibold ${ratio === null || ratio >= 4 ? 'text-green-500' : ratio >= 1 ? 'text-yellow-500' : 'text-red-500'}`}>
+            {ratio === null ? '—' : ratio.toFixed(1)}
+          </div>
+        </div>
+      </div>
+      <div className="mt-4 text-xs text-muted-foreground">
+        Expansion and contraction cover price changes, plan switches and the change in expansion revenue.
+        Reactivation is customers won back after churning.
+      </div>
+    </div>
+  );
+};
+
+export default MrrBridgeCard;
@@ -0,0 +1,268 @@
+import { PRICE_MIGRATIONS } from '../lib/pricing';
+import type { Plan, PlanMovement, PriceChange } from '../lib/types';
+
+const fieldClass = 'w-full px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+
+// Number input where an empty field means "use the scenario-wide value"
+const OverrideField: React.FC<{
+  label: string;
+  value: number | undefined;
+  placeholder: number;
+  prefix?: string;
+  suffix?: string;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, placeholder, prefix, suffix, onChange }) => (
+  <div>
+    <div className="text-xs text-muted-foreground mb-1">{label}</div>
+    <div className="relative">
+      {prefix && <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">{prefix}</span>}
+      <input
+        type="number"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        placeholder={placeholder.toString()}
+        min="0"
+        className={`w-full ${prefix ? 'pl-7' : 'pl-3'} ${suffix ? 'pr-8' : 'pr-3'} py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm`}
+      />
+      {suffix && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">{suffix}</span>}
+    </div>
+  </div>
+);
+
+const BILLING_TERMS = [
+  { months: 1, label: 'Monthly' },
+  { months: 12, label: 'Annual' },
+  { months: 24, label: '2-year' },
+  { months: 36, label: '3-year' }
+];
+
+const PlanDetailsEditor: React.FC<{
+  plan: Plan;
+  plans: Plan[];
+  defaults: { churnRate: number; cac: number; expansionRate: number };
+  onChange: (changes: Partial<Plan>) => void;
+}> = ({ plan, plans, defaults, onChange }) => {
+  const movements = plan.movements ?? [];
+  const targets = plans.filter(p => p.id !== plan.id);
+
+  const updateMovement = (index: number, changes: Partial<PlanMovement>) => {
+    onChange({ movements: movements.map((m, i) => i === index ? { ...m, ...changes } : m) });
+  };
+
+  const addMovement = () => {
+    if (targets.length === 0) return;
+    onChange({ movements: [...movements, { toPlanId: targets[0].id, monthlyRate: 1 }] });
+  };
+
+  const removeMovement = (index: number) => {
+    onChange({ movements: movements.filter((_, i) => i !== index) });
+  };
+
+  const priceChanges = plan.priceChanges ?? [];
+
+  const updatePriceChange = (id: string, changes: Partial<PriceChange>) => {
+    onChange({ priceChanges: priceChanges.map(c => c.id === id ? { ...c, ...changes } : c) });
+  };
+
+  // A new change defaults to a 20% rise a year after the last one
+  const addPriceChange = () => {
+    const last = priceChanges[priceChanges.length - 1];
+    onChange({
+      priceChanges: [...priceChanges, {
+        id: Date.now().toString(),
+        month: (last?.month ?? 0) + 12,
+        price: Math.round((last?.price ?? plan.price) * 1.2),
+        migration: 'grandfather',
+        delayMonths: 3,
+        churnSpike: 0
+      }]
+    });
+  };
+
+  return (
+    <div className="col-span-12 mt-2 pt-3 border-t border-border space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <OverrideField
+          label="Monthly churn"
+          value={plan.churnRate}
+          placeholder={defaults.churnRate}
+          suffix="%"
+          onChange={(churnRate) => onChange({ churnRate })}
+        />
+        <OverrideField
+          label="CAC"
+          value={plan.cac}
+          placeholder={defaults.cac}
+          prefix="$"
+          onChange={(cac) => onChange({ cac })}
+        />
+        <OverrideField
+          label="Expansion"
+          value={plan.expansionRate}
+          placeholder={defaults.expansionRate}
+          suffix="%"
+          onChange={(expansionRate) => onChange({ expansionRate })}
+        />
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Leave a field empty to use the scenario-wide value.
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="col-span-2">
+          <div className="text-xs text-muted-foreground mb-1">Billing term</div>
+          <div className="grid grid-cols-4 gap-1">
+            {BILLING_TERMS.map(term => (
+              <button
+                key={term.months}
+                onClick={() => onChange({ billingTermMonths: term.months })}
+                className={`text-xs px-1 py-2 rounded border ${
+                  (plan.billingTermMonths ?? 1) === term.months
+                    ? 'border-primary bg-primary/10'
+                    : 'border-border bg-background hover:bg-primary/10'
+                }`}
+              >
+                {term.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <OverrideField
+          label="Prepay discount"
+          value={plan.prepayDiscount}
+          placeholder={0}
+          suffix="%"
+          onChange={(prepayDiscount) => onChange({ prepayDiscount })}
+        />
+      </div>
+
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">Upgrade / downgrade paths</div>
+        {movements.map((movement, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 mb-2 items-center">
+            <span className="col-span-1 text-sm text-muted-foreground">→</span>
+            <select
+              value={movement.toPlanId}
+              onChange={(e) => updateMovement(index, { toPlanId: e.target.value })}
+              className="col-span-5 px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+            >
+              {targets.map(target => (
+                <option key={target.id} value={target.id}>{target.name || 'Unnamed plan'}</option>
+              ))}
+            </select>
+            <div className="col-span-4 relative">
+              <input
+                type="number"
+                value={movement.monthlyRate}
+                onChange={(e) => updateMovement(index, { monthlyRate: Number(e.target.value) })}
+                min="0"
+                max="100"
+                step="0.5"
+                className="w-full pl-3 pr-12 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">%/mo</span>
+            </div>
+            <button
+              onClick={() => removeMovement(index)}
+              className="col-span-2 px-2 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition-colors text-xs"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addMovement}
+          disabled={targets.length === 0}
+          className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors disabled:opacity-50"
+        >
+          + Add path
+        </button>
+      </div>
+
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">Price changes</div>
+        {priceChanges.map(change => (
+          <div key={change.id} className="p-2 mb-2 border border-border rounded space-y-2">
+            <div className="grid grid-cols-12 gap-2 items-end">
+              <label className="col-span-3 text-xs text-muted-foreground">
+                Month
+                <input
+                  type="number"
+                  value={change.month}
+                  onChange={(e) => updatePriceChange(change.id, { month: Math.max(Math.round(Number(e.target.value)), 1) })}
+                  min="1"
+                  className={`${fieldClass} mt-1 text-foreground`}
+                />
+              </label>
+              <label className="col-span-4 text-xs text-muted-foreground">
+                New price ($)
+                <input
+                  type="number"
+                  value={change.price}
+                  onChange={(e) => updatePriceChange(change.id, { price: Math.max(Number(e.target.value), 0) })}
+                  min="0"
+                  className={`${fieldClass} mt-1 text-foreground`}
+                />
+              </label>
+              <label className="col-span-3 text-xs text-muted-foreground">
+                Churn spike (%)
+                <input
+                  type="number"
+                  value={change.churnSpike}
+                  onChange={(e) => updatePriceChange(change.id, { churnSpike: Math.min(Math.max(Number(e.target.value), 0), 100) })}
+                  min="0"
+                  max="100"
+                  disabled={change.migration === 'grandfather'}
+                  className={`${fieldClass} mt-1 text-foreground disabled:opacity-50`}
+                />
+              </label>
+              <button
+                onClick={() => onChange({ priceChanges: priceChanges.filter(c => c.id !== change.id) })}
+                className="col-span-2 px-2 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition-colors text-xs"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-muted-foreground mr-1">Existing customers:</span>
+              {PRICE_MIGRATIONS.map(option => (
+                <button
+                  key={option.migration}
+                  onClick={() => updatePriceChange(change.id, { migration: option.migration })}
+                  className={`text-xs px-2 py-1 rounded border ${
+                    change.migration === option.migration
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border bg-secondary hover:bg-primary/10'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+              {change.migration === 'delayed' && (
+                <label className="flex items-center gap-1 text-xs text-muted-foreground ml-1">
+                  after
+                  <input
+                    type="number"
+                    value={change.delayMonths}
+                    onChange={(e) => updatePriceChange(change.id, { delayMonths: Math.max(Math.round(Number(e.target.value)), 0) })}
+                    min="0"
+                    className="w-14 px-2 py-1 bg-background border border-border rounded focus:outline-none focus:border-primary text-xs text-foreground"
+                  />
+                  months
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={addPriceChange}
+          className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+        >
+          + Add price change
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanDetailsEditor;
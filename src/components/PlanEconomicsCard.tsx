@@ -0,0 +1,81 @@
+import type { BusinessMetrics, MonthData } from '../lib/types';
+
+const PlanEconomicsCard: React.FC<{
+  metrics: BusinessMetrics;
+  finalMonth: MonthData | undefined;
+}> = ({ metrics, finalMonth }) => {
+  if (metrics.planMetrics.length === 0) return null;
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+        <span className="text-3xl">🧾</span>
+        Unit Economics by Plan
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-2 pr-4 font-semibold">Plan</th>
+              <th className="py-2 pr-4 font-semibold text-right">LTV</th>
+              <th className="py-2 pr-4 font-semibold text-right">CAC</th>
+              <th className="py-2 pr-4 font-semibold text-right">LTV:CAC</th>
+              <th className="py-2 pr-4 font-semibold text-right">Payback</th>
+              <th className="py-2 pr-4 font-semibold text-right">Active Customers</th>
+              <th className="py-2 font-semibold text-right">Final MRR</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.planMetrics.map(plan => {
+              const planMonth = finalMonth?.planBreakdown[plan.planId];
+              return (
+                <tr key={plan.planId} className="border-t border-border">
+                  <td className="py-2 pr-4 text-foreground font-medium">{plan.name}</td>
+                  <td className="py-2 pr-4 text-right">${plan.clv.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right">${plan.cac.toLocaleString()}</td>
+                  <td className={`py-2 pr-4 text-right font-semibold ${plan.ltvCacRatio >= 3 ? 'text-green-500' : 'text-yellow-500'}`}>
+                    {plan.ltvCacRatio}:1
+                  </td>
+                  <td className={`py-2 pr-4 text-right ${plan.paybackPeriod <= 12 ? 'text-green-500' : 'text-yellow-500'}`}>
+                    {plan.paybackPeriod} mo
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {(planMonth?.activeCustomers ?? 0).toLocaleString()}
+                    {planMonth && planMonth.pricePoints.length > 1 && (
+                      <div className="text-xs text-muted-foreground">
+                        {planMonth.pricePoints
+                          .filter(point => point.activeCustomers > 0)
+                          .map(point => `${point.activeCustomers.toLocaleString()} at $${Math.round(point.price * 100) / 100}`)
+                          .join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">${(planMonth?.mrr ?? 0).toLocaleString()}</td>
+                </tr>
+              );
+            })}
+            <tr className="border-t-2 border-border font-semibold text-foreground">
+              <td className="py-2 pr-4">Blended</td>
+              <td className="py-2 pr-4 text-right">${metrics.clv.toLocaleString()}</td>
+              <td className="py-2 pr-4 text-right text-muted-foreground">—</td>
+              <td className={`py-2 pr-4 text-right ${metrics.ltvCacRatio >= 3 ? 'text-green-500' : 'text-yellow-500'}`}>
+                {metrics.ltvCacRatio}:1
+              </td>
+              <td className={`py-2 pr-4 text-right ${metrics.paybackPeriod <= 12 ? 'text-green-500' : 'text-yellow-500'}`}>
+                {metrics.paybackPeriod} mo
+              </td>
+              <td className="py-2 pr-4 text-right">{(finalMonth?.activeCustomers ?? 0).toLocaleString()}</td>
+              <td className="py-2 text-right">${(finalMonth?.mrr ?? 0).toLocaleString()}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-4 text-xs text-muted-foreground">
+        Blended figures are weighted by the acquisition mix. Customers are split by the price they pay when a
+        plan has scheduled price changes.
+      </div>
+    </div>
+  );
+};
+
+export default PlanEconomicsCard;
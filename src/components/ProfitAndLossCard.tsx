@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { formatCurrency, formatCurrencyTick } from '../lib/format';
+import { PERIOD_TYPES, periodAxis } from '../lib/periods';
+import type { PeriodData, PeriodType } from '../lib/periods';
+import type { BusinessMetrics, MonthData } from '../lib/types';
+
+const PNL_COLUMNS: { key: keyof MonthData; label: string }[] = [
+  { key: 'recognizedRevenue', label: 'Revenue' },
+  { key: 'costOfRevenue', label: 'Cost of Revenue' },
+  { key: 'acquisitionCost', label: 'Acquisition' },
+  { key: 'fixedCosts', label: 'Fixed Costs' },
+  { key: 'payroll', label: 'Payroll' },
+  { key: 'freeUserCost', label: 'Free Users' },
+  { key: 'netIncome', label: 'Net Income' },
+  { key: 'funding', label: 'Funding' },
+  { key: 'cashBalance', label: 'Cash Balance' }
+];
+
+// P&L by period with the cash balance it leaves behind, and when cash runs out
+const ProfitAndLossCard: React.FC<{
+  projections: MonthData[];
+  periods: PeriodData[];
+  period: PeriodType;
+  metrics: BusinessMetrics;
+}> = ({ projections, periods, period, metrics }) => {
+  const [showTable, setShowTable] = useState(false);
+  const axis = periodAxis(period);
+  const periodName = PERIOD_TYPES.find(p => p.type === period)?.label.toLowerCase();
+  // Free users only cost anything with a funnel
+  const columns = PNL_COLUMNS.filter(c => c.key !== 'freeUserCost' || projections.some(m => m.freeUserCost > 0));
+  const zeroCashPeriod = periods.find(p => p.firstMonth <= metrics.zeroCashMonth && metrics.zeroCashMonth <= p.month);
+  const lowestCash = projections.reduce((min, m) => Math.min(min, m.cashBalance), Infinity);
+  const finalMonth = projections[projections.length - 1];
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">🧾</span>
+          Profit & Loss and Cash Runway
+        </h3>
+        <button
+          onClick={() => setShowTable(!showTable)}
+          className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+        >
+          {showTable ? 'Show chart' : `Show ${periodName} P&L`}
+        </button>
+      </div>
+
+      {showTable ? (
+        <div className="max-h-[400px] overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-card">
+              <tr className="text-muted-foreground">
+                <th className="text-left py-2 pr-2">{axis.title}</th>
+                {columns.map(column => (
+                  <th key={column.key} className="text-right py-2 px-2">{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map(month => (
+                <tr key={month.month} className="border-t border-border">
+                  <td className="py-1 pr-2 text-muted-foreground">{period === 'month' ? month.month : month.label}</td>
+                  {columns.map(column => {
+                    const value = month[column.key] as number;
+                    return (
+                      <td key={column.key} className={`py-1 px-2 text-right ${value < 0 ? 'text-red-400' : 'text-foreground'}`}>
+                        {formatCurrency(value)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="h-[400px] -mx-2 pr-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={periods}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+              <XAxis
+                dataKey={axis.dataKey}
+                tick={{ fill: '#a0aec0' }}
+                axisLine={{ stroke: '#4a5568' }}
+                label={{ value: axis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+              />
+              <YAxis
+                tick={{ fill: '#a0aec0' }}
+                axisLine={{ stroke: '#4a5568' }}
+                width={90}
+                tickMargin={5}
+                tickFormatter={formatCurrencyTick}
+              />
+              <Tooltip
+                formatter={(value, name) => [formatCurrency(Number(value)), name]}
+                labelFormatter={axis.heading}
+                contentStyle={{
+                  background: '#1a202c',
+                  border: '1px solid #4a5568',
+                  borderRadius: '0.5rem',
+                }}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#a0aec0" />
+              {zeroCashPeriod && (
+                <ReferenceLine x={period === 'month' ? zeroCashPeriod.month : zeroCashPeriod.label} stroke="#f87171" strokeDasharray="4 4" label={{ value: 'Cash out', fill: '#f87171', position: 'top' }} />
+              )}
+              <Bar dataKey="netIncome" fill="#3b82f6" fillOpacity={0.6} name="Net Income" />
+              <Line
+                type="monotone"
+                dataKey="cashBalance"
+                stroke="#10b981"
+                strokeWidth={2}
+                dot={false}
+                name="Cash Balance"
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="mt-4 grid grid-cols-3 gap-4 text-center text-sm">
+        <div>
+          <div className="text-muted-foreground">Runway</div>
+          <div className={`font-semibold ${metrics.zeroCashMonth > 0 ? 'text-red-400' : 'text-green-500'}`}>
+            {metrics.zeroCashMonth > 0 ? `Cash runs out in month ${metrics.zeroCashMonth}` : 'Cash never runs out'}
+          </div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Lowest cash balance</div>
+          <div className="font-semibold text-foreground">{Number.isFinite(lowestCash) ? formatCurrency(lowestCash) : '—'}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Ending headcount</div>
+          <div className="font-semibold text-foreground">{finalMonth?.headcount ?? 0}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfitAndLossCard;
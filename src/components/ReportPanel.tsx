@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { downloadBlob } from '../lib/export';
+import { buildReport, loadReportSettings, readLogo, saveReportSettings } from '../lib/report';
+import type { ReportSettings } from '../lib/report';
+import type { ProjectionResult, Scenario } from '../lib/types';
+
+const buttonClass = 'text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors';
+
+// Branding for the investor report and the button that builds it. The PDF is
+// drawn in the browser, so nothing about the model leaves the machine.
+const ReportPanel: React.FC<{
+  scenario: Scenario;
+  result: ProjectionResult;
+  onClose: () => void;
+}> = ({ scenario, result, onClose }) => {
+  const [settings, setSettings] = useState<ReportSettings>(loadReportSettings);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: ReportSettings) => {
+    setSettings(next);
+    saveReportSettings(next);
+  };
+
+  const chooseLogo = async (file: File) => {
+    try {
+      update({ ...settings, logo: await readLogo(file) });
+      setError(null);
+    } catch {
+      setError(`${file.name} could not be read as an image.`);
+    }
+  };
+
+  const generate = () => {
+    const name = settings.companyName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadBlob(
+      buildReport(scenario, result, settings),
+      `${name || 'saas'}-projection-${scenario.startDate.slice(0, 7)}.pdf`
+    );
+  };
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">📄</span>
+          Investor Report
+        </h3>
+        <button onClick={onClose} className={buttonClass}>Close</button>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        A PDF with a cover page, the input assumptions, key metrics, revenue, MRR and profit charts, the monthly
+        table and the insights. The same model always gives the same file. Branding is remembered in this browser.
+      </p>
+      <div className="flex flex-wrap items-end gap-6 mb-6">
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Company name</div>
+          <input
+            type="text"
+            value={settings.companyName}
+            onChange={(e) => update({ ...settings, companyName: e.target.value })}
+            placeholder="Acme Inc."
+            className="px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+          />
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Logo</div>
+          <div className="flex items-center gap-2">
+            {settings.logo && (
+              <img src={settings.logo.dataUrl} alt="Report logo" className="h-9 max-w-[120px] object-contain bg-white rounded" />
+            )}
+            <label className={`${buttonClass} inline-block cursor-pointer`}>
+              {settings.logo ? 'Replace…' : 'Choose image…'}
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) chooseLogo(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {settings.logo && (
+              <button onClick={() => update({ ...settings, logo: null })} className={buttonClass}>Remove</button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg border bg-red-500/10 border-red-500/50 text-sm text-foreground">{error}</div>
+      )}
+
+      <button
+        onClick={generate}
+        disabled={result.projections.length === 0}
+        className="px-4 py-2 rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-semibold"
+      >
+        Generate report
+      </button>
+    </div>
+  );
+};
+
+export default ReportPanel;
@@ -0,0 +1,207 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { formatCurrency, formatCurrencyTick } from '../lib/format';
+import type { ProjectionResult } from '../lib/types';
+
+const COMPARISON_COLORS = ['#9f7aea', '#3b82f6', '#10b981', '#f59e0b'];
+
+export interface ComparedScenario {
+  id: string;
+  name: string;
+  result: ProjectionResult;
+}
+
+interface ComparedRow {
+  label: string;
+  // null when the metric cannot be measured for a scenario
+  value: (result: ProjectionResult) => number | null;
+  format: (value: number) => string;
+  formatDelta?: (magnitude: number) => string;
+  higherIsBetter: boolean;
+}
+
+const finalMonthOf = (result: ProjectionResult) => result.projections[result.projections.length - 1];
+
+// A break-even month of -1 means "never", which is the worst possible outcome
+const breakEvenRank = (month: number) => (month === -1 ? Infinity : month);
+
+const ROWS: ComparedRow[] = [
+  { label: 'Final Month MRR', value: (r) => finalMonthOf(r)?.mrr ?? 0, format: formatCurrency, higherIsBetter: true },
+  { label: 'Total Revenue', value: (r) => finalMonthOf(r)?.revenue ?? 0, format: formatCurrency, higherIsBetter: true },
+  { label: 'Active Customers', value: (r) => finalMonthOf(r)?.activeCustomers ?? 0, format: (v) => v.toLocaleString(), higherIsBetter: true },
+  { label: 'Cumulative Profit', value: (r) => finalMonthOf(r)?.profit ?? 0, format: formatCurrency, higherIsBetter: true },
+  { label: 'Ending Cash', value: (r) => finalMonthOf(r)?.cashBalance ?? 0, format: formatCurrency, higherIsBetter: true },
+  { label: 'ARR', value: (r) => r.metrics.arr, format: formatCurrency, higherIsBetter: true },
+  { label: 'Valuation', value: (r) => r.metrics.valuation, format: formatCurrency, higherIsBetter: true },
+  { label: 'Customer LTV', value: (r) => r.metrics.clv, format: formatCurrency, higherIsBetter: true },
+  { label: 'LTV:CAC', value: (r) => r.metrics.ltvCacRatio, format: (v) => `${v}:1`, formatDelta: (v) => `${v}`, higherIsBetter: true },
+  { label: 'Payback Period', value: (r) => r.metrics.paybackPeriod, format: (v) => `${v} mo`, higherIsBetter: false },
+  { label: 'NRR', value: (r) => r.metrics.nrr, format: (v) => `${v}%`, higherIsBetter: true },
+  { label: 'GRR', value: (r) => r.metrics.grr, format: (v) => `${v}%`, higherIsBetter: true },
+  { label: 'Rule of 40', value: (r) => r.metrics.ruleOf40, format: (v) => `${v}%`, higherIsBetter: true },
+  {
+    label: 'Break-even Month',
+    value: (r) => r.metrics.breakEvenMonth,
+    format: (v) => (v === -1 ? 'Never' : `Month ${v}`),
+    formatDelta: (v) => `${v} mo`,
+    higherIsBetter: false
+  }
+];
+
+const formatValue = (row: ComparedRow, value: number | null) => (value === null ? 'n/a' : row.format(value));
+
+const formatDelta = (row: ComparedRow, delta: number) => {
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+  const magnitude = Math.abs(Math.round(delta * 10) / 10);
+  return `${sign}${(row.formatDelta ?? row.format)(magnitude)}`;
+};
+
+const DeltaCell: React.FC<{ row: ComparedRow; baseline: number | null; value: number | null }> = ({ row, baseline, value }) => {
+  if (baseline === null || value === null) return null;
+  if (row.label === 'Break-even Month' && (baseline === -1 || value === -1)) {
+    if (baseline === value) return null;
+    const better = breakEvenRank(value) < breakEvenRank(baseline);
+    return <span className={better ? 'text-green-500' : 'text-red-400'}>{better ? 'reaches break-even' : 'never breaks even'}</span>;
+  }
+
+  const delta = value - baseline;
+  if (delta === 0) return <span className="text-muted-foreground">no change</span>;
+
+  const better = row.higherIsBetter ? delta > 0 : delta < 0;
+  const percent = baseline !== 0 ? ` (${delta > 0 ? '+' : ''}${((delta / Math.abs(baseline)) * 100).toFixed(1)}%)` : '';
+  return (
+    <span className={better ? 'text-green-500' : 'text-red-400'}>
+      {formatDelta(row, delta)}{percent}
+    </span>
+  );
+};
+
+// Merges the monthly series of every compared scenario into one row per
+// month, keyed s0..s3, so a single chart can overlay them.
+const mergeSeries = (scenarios: ComparedScenario[], field: 'mrr' | 'revenue') => {
+  const months = Math.max(...scenarios.map((s) => s.result.projections.length));
+  return Array.from({ length: months }, (_, index) => {
+    const row: Record<string, number> = { month: index + 1 };
+    scenarios.forEach((scenario, i) => {
+      const month = scenario.result.projections[index];
+      if (month) row[`s${i}`] = month[field];
+    });
+    return row;
+  });
+};
+
+const ComparisonChart: React.FC<{
+  title: string;
+  icon: string;
+  scenarios: ComparedScenario[];
+  field: 'mrr' | 'revenue';
+}> = ({ title, icon, scenarios, field }) => (
+  <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+    <h3 className="text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+      <span className="text-3xl">{icon}</span>
+      {title}
+    </h3>
+    <div className="h-[400px] -mx-2 pr-2">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={mergeSeries(scenarios, field)}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+          <XAxis
+            dataKey="month"
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            label={{ value: 'Month', position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+          />
+          <YAxis
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            width={90}
+            tickMargin={5}
+            tickFormatter={formatCurrencyTick}
+          />
+          <Tooltip
+            formatter={(value) => `$${Number(value).toLocaleString()}`}
+            labelFormatter={(month) => `Month ${month}`}
+            contentStyle={{
+              background: '#1a202c',
+              border: '1px solid #4a5568',
+              borderRadius: '0.5rem',
+            }}
+          />
+          <Legend />
+          {scenarios.map((scenario, i) => (
+            <Line
+              key={scenario.id}
+              type="monotone"
+              dataKey={`s${i}`}
+              stroke={COMPARISON_COLORS[i % COMPARISON_COLORS.length]}
+              strokeWidth={2}
+              strokeDasharray={i === 0 ? undefined : '6 3'}
+              dot={false}
+              name={scenario.name}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const ScenarioComparison: React.FC<{ scenarios: ComparedScenario[] }> = ({ scenarios }) => {
+  const [baseline, ...others] = scenarios;
+  if (!baseline) return null;
+
+  return (
+    <div className="space-y-6">
+      <ComparisonChart title="MRR Comparison" icon="📊" scenarios={scenarios} field="mrr" />
+      <ComparisonChart title="Cumulative Revenue Comparison" icon="📈" scenarios={scenarios} field="revenue" />
+
+      <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+        <h3 className="text-2xl font-bold text-foreground mb-2 flex items-center gap-2">
+          <span className="text-3xl">⚖️</span>
+          Metrics Comparison
+        </h3>
+        <p className="text-sm text-muted-foreground mb-6">
+          Deltas are relative to <span className="font-semibold text-foreground">{baseline.name}</span>.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-semibold">Metric</th>
+                {scenarios.map((scenario, i) => (
+                  <th key={scenario.id} className="py-2 pr-4 font-semibold">
+                    <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ background: COMPARISON_COLORS[i] }} />
+                    {scenario.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => {
+                const baseValue = row.value(baseline.result);
+                return (
+                  <tr key={row.label} className="border-t border-border">
+                    <td className="py-2 pr-4 text-muted-foreground">{row.label}</td>
+                    <td className="py-2 pr-4 font-semibold text-foreground">{formatValue(row, baseValue)}</td>
+                    {others.map((scenario) => {
+                      const value = row.value(scenario.result);
+                      return (
+                        <td key={scenario.id} className="py-2 pr-4">
+                          <div className="font-semibold text-foreground">{formatValue(row, value)}</div>
+                          <div className="text-xs">
+                            <DeltaCell row={row} baseline={baseValue} value={value} />
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from 'react';
+import ScenarioComparison from './ScenarioComparison';
+import { calculateProjections } from '../lib/projections';
+import { modelStartDate } from '../lib/startingPoint';
+import {
+  createSavedScenario,
+  loadLibrary,
+  MAX_COMPARED,
+  MIN_COMPARED,
+  saveLibrary,
+  type SavedScenario
+} from '../lib/scenarioLibrary';
+import type { CalculatorState } from '../lib/types';
+
+const ScenarioLibrary: React.FC<{
+  currentState: CalculatorState;
+  onLoad: (state: CalculatorState) => void;
+}> = ({ currentState, onLoad }) => {
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(loadLibrary);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    saveLibrary(scenarios);
+  }, [scenarios]);
+
+  const saveCurrent = () => {
+    setScenarios([...scenarios, createSavedScenario(name, currentState)]);
+    setName('');
+  };
+
+  const removeScenario = (id: string) => {
+    setScenarios(scenarios.filter(s => s.id !== id));
+    setSelectedIds(selectedIds.filter(selected => selected !== id));
+  };
+
+  const toggleSelected = (id: string) => {
+    if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter(selected => selected !== id));
+    } else if (selectedIds.length < MAX_COMPARED) {
+      setSelectedIds([...selectedIds, id]);
+    }
+  };
+
+  // Compared in the order they were picked; the first pick is the baseline
+  const compared = useMemo(() =>
+    selectedIds
+      .map(id => scenarios.find(s => s.id === id))
+      .filter((s): s is SavedScenario => s !== undefined)
+      .map(s => ({
+        id: s.id,
+        name: s.name,
+        result: calculateProjections({
+          ...s.state,
+          months: s.state.horizonMonths,
+          startDate: modelStartDate(s.state)
+        })
+      })), [scenarios, selectedIds]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+        <h3 className="text-2xl font-bold text-foreground mb-2 flex items-center gap-2">
+          <span className="text-3xl">🗂️</span>
+          Scenario Library
+        </h3>
+        <p className="text-sm text-muted-foreground mb-6">
+          Save the current configuration, then pick {MIN_COMPARED}–{MAX_COMPARED} scenarios to compare.
+          Scenarios are stored in this browser only.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') saveCurrent(); }}
+            placeholder='e.g., "Raise Pro to $79"'
+            className="flex-1 px-3 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+          />
+          <button
+            onClick={saveCurrent}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary-light transition-colors font-medium"
+          >
+            Save current
+          </button>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <div className="p-3 bg-secondary/50 border border-border rounded-lg text-sm text-muted-foreground">
+            No saved scenarios yet.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {scenarios.map((scenario) => {
+              const selectedIndex = selectedIds.indexOf(scenario.id);
+              const selectable = selectedIndex !== -1 || selectedIds.length < MAX_COMPARED;
+              return (
+                <div key={scenario.id} className="flex items-center gap-3 p-3 bg-secondary rounded-lg border border-border">
+                  <input
+                    type="checkbox"
+                    checked={selectedIndex !== -1}
+                    disabled={!selectable}
+                    onChange={() => toggleSelected(scenario.id)}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold text-foreground text-sm truncate">
+                      {scenario.name}
+                      {selectedIndex === 0 && <span className="ml-2 text-xs text-purple-400">baseline</span>}
+                    </div>
+                    {scenario.savedAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Saved {new Date(scenario.savedAt).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onLoad(scenario.state)}
+                    className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+                  >
+                    Load
+                  </button>
+                  <button
+                    onClick={() => removeScenario(scenario.id)}
+                    className="text-xs px-2 py-1 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {selectedIds.length === 1 && (
+          <div className="mt-4 text-sm text-muted-foreground">
+            Select at least one more scenario to compare.
+          </div>
+        )}
+      </div>
+
+      {compared.length >= MIN_COMPARED && <ScenarioComparison scenarios={compared} />}
+    </div>
+  );
+};
+
+export default ScenarioLibrary;
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { dataTable, formatOutput, outputLabel, SENSITIVITY_INPUTS, SENSITIVITY_OUTPUTS, tornado } from '../lib/sensitivity';
+import type { Scenario } from '../lib/types';
+
+const FLEX_OPTIONS = [5, 10, 20, 30];
+const TABLE_STEPS = [-30, -20, -10, 0, 10, 20, 30];
+
+// Wait for the inputs to settle before projecting the chart and table again
+const DEBOUNCE_MS = 500;
+
+const selectClass = 'px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+
+// Every bar and cell is a full projection, so these only run while the panel
+// is open, and against the scenario as it was once edits paused
+const SensitivityResults: React.FC<{ scenario: Scenario }> = ({ scenario: latest }) => {
+  const [scenario, setScenario] = useState(latest);
+  useEffect(() => {
+    const timer = setTimeout(() => setScenario(latest), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [latest]);
+  const [outputId, setOutputId] = useState(SENSITIVITY_OUTPUTS[0].id);
+  const [flexPercent, setFlexPercent] = useState(10);
+  const [rowInputId, setRowInputId] = useState('churn');
+  const [columnInputId, setColumnInputId] = useState('price');
+  const [tableOutputId, setTableOutputId] = useState(SENSITIVITY_OUTPUTS[0].id);
+
+  const output = SENSITIVITY_OUTPUTS.find(o => o.id === outputId)!;
+  const tableOutput = SENSITIVITY_OUTPUTS.find(o => o.id === tableOutputId)!;
+  const rowInput = SENSITIVITY_INPUTS.find(i => i.id === rowInputId)!;
+  const columnInput = SENSITIVITY_INPUTS.find(i => i.id === columnInputId)!;
+  const format = (value: number, f = output.format) => formatOutput(value, f, scenario.months);
+
+  const { base, bars } = useMemo(
+    () => tornado(scenario, output, flexPercent),
+    [scenario, output, flexPercent]
+  );
+  // Bars are drawn as changes from the base value
+  const chartData = bars.map(bar => ({ ...bar, lowDelta: bar.low - base, highDelta: bar.high - base }));
+
+  const table = useMemo(
+    () => dataTable(scenario, rowInput, columnInput, tableOutput, TABLE_STEPS),
+    [scenario, rowInput, columnInput, tableOutput]
+  );
+  const tableBase = table[TABLE_STEPS.indexOf(0)][TABLE_STEPS.indexOf(0)];
+  // Lower is better only for the break-even month
+  const better = (value: number) => tableOutput.format === 'month' ? value < tableBase : value > tableBase;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-muted-foreground">
+        Impact on
+        <select value={outputId} onChange={(e) => setOutputId(e.target.value)} className={selectClass}>
+          {SENSITIVITY_OUTPUTS.map(o => <option key={o.id} value={o.id}>{outputLabel(o, scenario.months)}</option>)}
+        </select>
+        of flexing each input by ±
+        {FLEX_OPTIONS.map(option => (
+          <button
+            key={option}
+            onClick={() => setFlexPercent(option)}
+            className={`text-xs px-2 py-1 rounded border ${
+              flexPercent === option ? 'border-primary bg-primary/10' : 'border-border bg-background hover:bg-primary/10'
+            }`}
+          >
+            {option}%
+          </button>
+        ))}
+      </div>
+
+      <div className="h-[360px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" stackOffset="sign">
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis
+              type="number"
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={(value: number) => `${value > 0 ? '+' : ''}${output.format === 'currency' ? `$${Math.round(value).toLocaleString()}` : value.toFixed(1)}`}
+            />
+            <YAxis
+              type="category"
+              dataKey="label"
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={120}
+            />
+            <Tooltip
+              formatter={(value, name) => [format(Number(value) + base), name]}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <ReferenceLine x={0} stroke="#a0aec0" />
+            <Bar dataKey="lowDelta" stackId="swing" fill="#f87171" name={`Input −${flexPercent}%`} />
+            <Bar dataKey="highDelta" stackId="swing" fill="#34d399" name={`Input +${flexPercent}%`} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-4 text-sm text-muted-foreground text-center">
+        Base case: {format(base)}
+        {scenario !== latest && ' (updating…)'}
+      </div>
+
+      <h4 className="text-lg font-bold text-foreground mt-8 mb-4">Two-Way Data Table</h4>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-muted-foreground">
+        <select value={tableOutputId} onChange={(e) => setTableOutputId(e.target.value)} className={selectClass}>
+          {SENSITIVITY_OUTPUTS.map(o => <option key={o.id} value={o.id}>{outputLabel(o, scenario.months)}</option>)}
+        </select>
+        by
+        <select value={rowInputId} onChange={(e) => setRowInputId(e.target.value)} className={selectClass}>
+          {SENSITIVITY_INPUTS.filter(i => i.id !== columnInputId).map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+        </select>
+        (rows) ×
+        <select value={columnInputId} onChange={(e) => setColumnInputId(e.target.value)} className={selectClass}>
+          {SENSITIVITY_INPUTS.filter(i => i.id !== rowInputId).map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+        </select>
+        (columns)
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left py-2 pr-2">{rowInput.label} ↓ / {columnInput.label} →</th>
+              {TABLE_STEPS.map(step => (
+                <th key={step} className="text-right py-2 px-2">{step > 0 ? '+' : ''}{step}%</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.map((row, rowIndex) => (
+              <tr key={TABLE_STEPS[rowIndex]} className="border-t border-border">
+                <td className="py-2 pr-2 text-muted-foreground">
+                  {TABLE_STEPS[rowIndex] > 0 ? '+' : ''}{TABLE_STEPS[rowIndex]}%
+                </td>
+                {row.map((value, columnIndex) => (
+                  <td
+                    key={TABLE_STEPS[columnIndex]}
+                    className={`py-2 px-2 text-right ${
+                      value === tableBase ? 'text-foreground font-semibold' : better(value) ? 'text-green-500' : 'text-red-400'
+                    }`}
+                  >
+                    {formatOutput(value, tableOutput.format, scenario.months)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
+
+const SensitivityPanel: React.FC<{ scenario: Scenario }> = ({ scenario }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">🌪️</span>
+          Sensitivity Analysis
+        </h3>
+        <button
+          onClick={() => setOpen(!open)}
+          className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+        >
+          {open ? 'Hide' : 'Show'}
+        </button>
+      </div>
+      {open ? <SensitivityResults scenario={scenario} /> : (
+        <p className="text-sm text-muted-foreground">
+          See which inputs move your results the most: a tornado chart of each input flexed up and down, and a
+          two-way table of any pair of inputs.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,155 @@
+import { monthReachedBy, RUN_OPTIONS, runsFor } from '../lib/simulation';
+import type { Distribution, SimulationResult, UncertaintySettings } from '../lib/types';
+
+const INPUTS: { key: 'churn' | 'acquisition' | 'planMix' | 'expansion'; label: string }[] = [
+  { key: 'churn', label: 'Churn' },
+  { key: 'acquisition', label: 'Acquisition volume' },
+  { key: 'planMix', label: 'Plan mix' },
+  { key: 'expansion', label: 'Expansion' }
+];
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+const describeOdds = (byMonth: number[], months: number) => {
+  const final = byMonth[byMonth.length - 1] ?? 0;
+  const median = monthReachedBy(byMonth, 0.5);
+  return {
+    value: formatShare(final),
+    detail: median > 0 ? `50% likely by month ${median}` : `Less than even odds within ${months} months`
+  };
+};
+
+const SimulationPanel: React.FC<{
+  enabled: boolean;
+  onToggle: () => void;
+  uncertainty: UncertaintySettings;
+  onChange: (uncertainty: UncertaintySettings) => void;
+  result: SimulationResult | null;
+  running: boolean;
+  error: string | null;
+  onCancel: () => void;
+  horizon: number;
+  hasPlans: boolean;
+}> = ({ enabled, onToggle, uncertainty, onChange, result, running, error, onCancel, horizon, hasPlans }) => {
+  const updateDistribution = (key: typeof INPUTS[number]['key'], changes: Partial<Distribution>) => {
+    onChange({ ...uncertainty, [key]: { ...uncertainty[key], ...changes } });
+  };
+
+  const cappedRuns = runsFor(uncertainty.runs, horizon);
+  const months = result?.months.length ?? 0;
+  const target = result ? describeOdds(result.targetByMonth, months) : null;
+  const breakEven = result ? describeOdds(result.breakEvenByMonth, months) : null;
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">🎲</span>
+          Monte Carlo Simulation
+        </h3>
+        <button
+          onClick={onToggle}
+          className={`text-xs px-2 py-1 rounded transition-colors ${
+            enabled
+              ? 'bg-secondary border border-border hover:bg-primary/10'
+              : 'bg-primary text-primary-foreground hover:bg-primary/90'
+          }`}
+        >
+          {enabled ? 'Turn off' : 'Enable'}
+        </button>
+      </div>
+
+      {!enabled ? (
+        <p className="text-sm text-muted-foreground">
+          Sample churn, acquisition, plan mix and expansion from ranges around your inputs to see P10/P50/P90
+          bands on the revenue charts and the odds of hitting your target.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {INPUTS.filter(input => input.key !== 'planMix' || hasPlans).map(input => (
+              <div key={input.key} className="p-3 rounded-lg bg-secondary border border-border">
+                <div className="text-sm font-semibold text-foreground mb-2">{input.label}</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={uncertainty[input.key].type}
+                    onChange={(e) => updateDistribution(input.key, { type: e.target.value as Distribution['type'] })}
+                    className="px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+                  >
+                    <option value="normal">Normal (± std dev)</option>
+                    <option value="uniform">Uniform (± range)</option>
+                  </select>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      value={uncertainty[input.key].spread}
+                      onChange={(e) => updateDistribution(input.key, { spread: Math.max(Number(e.target.value), 0) })}
+                      min="0"
+                      step="5"
+                      className="w-full pl-3 pr-8 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">%</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Runs
+            {RUN_OPTIONS.map(runs => (
+              <button
+                key={runs}
+                onClick={() => onChange({ ...uncertainty, runs })}
+                className={`text-xs px-2 py-1 rounded border ${
+                  uncertainty.runs === runs
+                    ? 'border-primary bg-primary/10'
+                    : 'border-border bg-background hover:bg-primary/10'
+                }`}
+              >
+                {runs.toLocaleString()}
+              </button>
+            ))}
+            {running && (
+              <span className="ml-auto flex items-center gap-2">
+                Simulating…
+                <button
+                  onClick={onCancel}
+                  className="text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors"
+                >
+                  Cancel
+                </button>
+              </span>
+            )}
+          </div>
+          {cappedRuns < uncertainty.runs && (
+            <p className="text-xs text-muted-foreground -mt-4">
+              Limited to {cappedRuns.toLocaleString()} runs over {horizon} months to keep the simulation quick.
+            </p>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-lg border bg-red-500/10 border-red-500/50 text-sm text-foreground">{error}</div>
+          )}
+
+          {target && breakEven && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="p-4 rounded-lg bg-secondary border border-border">
+                <div className="text-sm text-muted-foreground mb-1">Chance of reaching target MRR</div>
+                <div className="text-2xl font-bold text-primary">{target.value}</div>
+                <div className="text-xs text-muted-foreground">{target.detail}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-secondary border border-border">
+                <div className="text-sm text-muted-foreground mb-1">Chance of breaking even</div>
+                <div className="text-2xl font-bold text-primary">{breakEven.value}</div>
+                <div className="text-xs text-muted-foreground">{breakEven.detail}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,133 @@
+import type { Plan, StartingPoint } from '../lib/types';
+
+const fieldClass = 'w-full px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+
+const CurrencyInput: React.FC<{
+  value: number | null;
+  placeholder?: string;
+  onChange: (value: number | null) => void;
+}> = ({ value, placeholder, onChange }) => (
+  <div className="relative">
+    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
+    <input
+      type="number"
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      step="100"
+      className={`${fieldClass} pl-7`}
+    />
+  </div>
+);
+
+// The business as it stands today: customers (optionally per plan), MRR,
+// the month the model starts and profit made so far
+const StartingPointEditor: React.FC<{
+  start: StartingPoint;
+  plans: Plan[];
+  onChange: (start: StartingPoint) => void;
+}> = ({ start, plans, onChange }) => {
+  const update = (changes: Partial<StartingPoint>) => onChange({ ...start, ...changes });
+  const splitByPlan = start.customersByPlan !== null && plans.length > 0;
+
+  // Splitting starts from the acquisition mix, so the total is unchanged
+  const toggleSplit = (split: boolean) => {
+    if (!split) {
+      update({ customersByPlan: null });
+      return;
+    }
+    const totalProb = plans.reduce((sum, p) => sum + p.probability, 0);
+    update({
+      customersByPlan: Object.fromEntries(plans.map(plan => [
+        plan.id,
+        Math.round(start.activeCustomers * (totalProb > 0 ? plan.probability / totalProb : 1 / plans.length))
+      ]))
+    });
+  };
+
+  const planTotal = (customersByPlan: Record<string, number>) =>
+    plans.reduce((sum, plan) => sum + (customersByPlan[plan.id] ?? 0), 0);
+  const updatePlanCustomers = (planId: string, count: number) => {
+    const customersByPlan = { ...start.customersByPlan, [planId]: count };
+    update({ customersByPlan, activeCustomers: planTotal(customersByPlan) });
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-foreground mb-4 mt-8 pt-6 border-t border-border">
+        Starting Point
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        For a business that already has customers. Leave at zero to model a launch.
+      </p>
+
+      <div className="mb-4">
+        <label className="block text-sm font-semibold text-foreground mb-2">Model Starts</label>
+        <input
+          type="month"
+          value={start.startDate ?? ''}
+          onChange={(e) => update({ startDate: e.target.value || null })}
+          className={fieldClass}
+        />
+        <div className="text-xs text-muted-foreground mt-1">
+          Blank starts at the first imported actual month, or this month
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-semibold text-foreground">Current Active Customers</label>
+          {plans.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input type="checkbox" checked={splitByPlan} onChange={(e) => toggleSplit(e.target.checked)} />
+              By plan
+            </label>
+          )}
+        </div>
+        {splitByPlan ? (
+          <div className="space-y-2">
+            {plans.map(plan => (
+              <div key={plan.id} className="grid grid-cols-12 gap-2 items-center">
+                <span className="col-span-7 text-sm text-foreground truncate">{plan.name || 'Unnamed plan'}</span>
+                <input
+                  type="number"
+                  value={start.customersByPlan?.[plan.id] ?? 0}
+                  onChange={(e) => updatePlanCustomers(plan.id, Math.max(Number(e.target.value), 0))}
+                  min="0"
+                  className={`col-span-5 ${fieldClass}`}
+                />
+              </div>
+            ))}
+            <div className="text-xs text-muted-foreground">{planTotal(start.customersByPlan ?? {}).toLocaleString()} in total</div>
+          </div>
+        ) : (
+          <input
+            type="number"
+            value={start.activeCustomers}
+            onChange={(e) => update({ activeCustomers: Math.max(Number(e.target.value), 0) })}
+            min="0"
+            className={fieldClass}
+          />
+        )}
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-semibold text-foreground mb-2">Current MRR</label>
+        <CurrencyInput value={start.mrr} placeholder="At plan prices" onChange={(mrr) => update({ mrr })} />
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-foreground mb-2">Cumulative Profit to Date</label>
+        <CurrencyInput
+          value={start.cumulativeProfit}
+          onChange={(value) => update({ cumulativeProfit: value ?? 0 })}
+        />
+        <div className="text-xs text-muted-foreground mt-1">
+          Negative for losses so far. Cash in the bank is set under Fixed Costs & Funding.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StartingPointEditor;
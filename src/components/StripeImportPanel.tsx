@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { formatCurrency } from '../lib/format';
+import { currentMonthStart } from '../lib/projections';
+import {
+  applyStripeModel,
+  deriveStripeModel,
+  parseStripeInvoices,
+  parseStripeSubscriptions
+} from '../lib/stripe';
+import type { StripeInvoice, StripeSubscription } from '../lib/stripe';
+import type { CalculatorState } from '../lib/types';
+
+const buttonClass = 'text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors';
+
+const formatRate = (value: number | null) => value === null ? 'Not found' : `${Math.round(value * 10) / 10}% / month`;
+
+const FilePicker: React.FC<{
+  label: string;
+  fileName: string | null;
+  onFile: (file: File) => void;
+}> = ({ label, fileName, onFile }) => (
+  <div>
+    <div className="text-xs text-muted-foreground mb-1">{label}</div>
+    <label className={`${buttonClass} inline-block cursor-pointer`}>
+      {fileName ?? 'Choose CSV…'}
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onFile(file);
+          e.target.value = '';
+        }}
+      />
+    </label>
+  </div>
+);
+
+// Reads Stripe's subscription (and optionally invoice) exports, shows what
+// they imply and only touches the inputs once the user applies it
+const StripeImportPanel: React.FC<{
+  state: CalculatorState;
+  onApply: (state: CalculatorState) => void;
+  onClose: () => void;
+}> = ({ state, onApply, onClose }) => {
+  const [subscriptions, setSubscriptions] = useState<{ name: string; rows: StripeSubscription[]; warnings: string[] } | null>(null);
+  const [invoices, setInvoices] = useState<{ name: string; rows: StripeInvoice[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const readSubscriptions = async (file: File) => {
+    const parsed = parseStripeSubscriptions(await file.text());
+    setError(parsed.ok ? null : parsed.error);
+    setSubscriptions(parsed.ok ? { name: file.name, rows: parsed.rows, warnings: parsed.warnings } : null);
+  };
+  const readInvoices = async (file: File) => {
+    const parsed = parseStripeInvoices(await file.text());
+    setError(parsed.ok ? null : parsed.error);
+    setInvoices(parsed.ok ? { name: file.name, rows: parsed.rows } : null);
+  };
+
+  const model = subscriptions
+    ? deriveStripeModel(subscriptions.rows, invoices?.rows ?? null, currentMonthStart().slice(0, 7))
+    : null;
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">📥</span>
+          Import from Stripe
+        </h3>
+        <button onClick={onClose} className={buttonClass}>Close</button>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Export subscriptions (and optionally invoices) as CSV from the Stripe dashboard. The files are read in your
+        browser and never uploaded.
+      </p>
+      <div className="flex flex-wrap gap-6 mb-4">
+        <FilePicker label="Subscriptions export" fileName={subscriptions?.name ?? null} onFile={readSubscriptions} />
+        <FilePicker label="Invoices export (for expansion)" fileName={invoices?.name ?? null} onFile={readInvoices} />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg border bg-red-500/10 border-red-500/50 text-sm text-foreground">{error}</div>
+      )}
+      {subscriptions?.warnings.map(warning => (
+        <div key={warning} className="mb-4 p-3 rounded-lg border bg-yellow-500/10 border-yellow-500/50 text-sm text-foreground">{warning}</div>
+      ))}
+
+      {model && (
+        <>
+          <h4 className="text-lg font-bold text-foreground mt-6 mb-4">Review</h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+            {[
+              ['Active customers', model.currentCustomers.toLocaleString()],
+              ['Current MRR', formatCurrency(model.currentMrr)],
+              ['ARPU', `$${model.arpu.toFixed(2)}`],
+              ['Churn', formatRate(model.churnRate)],
+              ['New customers', model.customersPerMonth === null ? 'Not found' : `${model.customersPerMonth} / month`],
+              ['Expansion', invoices ? formatRate(model.expansionRate) : 'Needs invoices']
+            ].map(([label, value]) => (
+              <div key={label} className="p-4 bg-secondary rounded-lg">
+                <div className="text-xs text-muted-foreground mb-1">{label}</div>
+                <div className="text-lg font-bold text-foreground">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left py-2 pr-2">Plan</th>
+                  <th className="text-right py-2 px-2">Price / month</th>
+                  <th className="text-right py-2 px-2">Billing</th>
+                  <th className="text-right py-2 px-2">New-customer mix</th>
+                  <th className="text-right py-2 pl-2">Active now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {model.plans.map(plan => (
+                  <tr key={plan.id} className="border-t border-border">
+                    <td className="py-2 pr-2 text-foreground">{plan.name}</td>
+                    <td className="py-2 px-2 text-right">${plan.price.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right">
+                      {(plan.billingTermMonths ?? 1) > 1 ? `Every ${plan.billingTermMonths} months` : 'Monthly'}
+                    </td>
+                    <td className="py-2 px-2 text-right">{plan.probability}%</td>
+                    <td className="py-2 pl-2 text-right">{(model.activeByPlan[plan.id] ?? 0).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-sm text-muted-foreground mb-4">
+            Applying replaces your plans, average payment, churn, customers per month
+            {model.expansionRate !== null && ' and expansion'}, fitted from {model.history.length} months of
+            subscription history ({model.history[0]?.date} to {model.history[model.history.length - 1]?.date}), and
+            starts the forecast next month from today's {model.currentCustomers.toLocaleString()} customers
+            and {formatCurrency(model.currentMrr)} MRR. Any imported actuals are cleared.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onApply(applyStripeModel(state, model))}
+              className="px-4 py-2 rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-semibold"
+            >
+              Apply to model
+            </button>
+            <button onClick={onClose} className={buttonClass}>Cancel</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StripeImportPanel;
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { formatCurrency } from '../lib/format';
+import type { MultipleTable, ValuationRange, ValuationSettings } from '../lib/types';
+
+const fieldClass = 'w-full px-2 py-2 bg-background border border-border rounded focus:outline-none focus:border-primary text-sm';
+const buttonClass = 'text-xs px-2 py-1 rounded bg-secondary border border-border hover:bg-primary/10 transition-colors';
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  suffix: string;
+  step?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, suffix, step = 1, onChange }) => (
+  <div>
+    <div className="text-xs text-muted-foreground mb-1">{label}</div>
+    <div className="relative">
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        min="0"
+        step={step}
+        className={`${fieldClass} pr-8`}
+      />
+      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">{suffix}</span>
+    </div>
+  </div>
+);
+
+// ARR multiples by growth tier (rows) and NRR tier (columns); thresholds
+// are editable in the headers
+const MultipleTableEditor: React.FC<{
+  table: MultipleTable;
+  onChange: (table: MultipleTable) => void;
+}> = ({ table, onChange }) => {
+  const setThreshold = (key: 'growthThresholds' | 'nrrThresholds', index: number, value: number) =>
+    onChange({ ...table, [key]: table[key].map((t, i) => i === index ? value : t) });
+  const setMultiple = (row: number, column: number, value: number) =>
+    onChange({
+      ...table,
+      multiples: table.multiples.map((r, i) => i === row ? r.map((m, j) => j === column ? value : m) : r)
+    });
+  const addTier = () => {
+    const last = table.multiples.length - 1;
+    onChange({
+      ...table,
+      growthThresholds: [...table.growthThresholds, (table.growthThresholds[last] ?? 0) + 20],
+      multiples: [...table.multiples, table.multiples[last]?.map(m => m + 2) ?? table.nrrThresholds.map(() => 1)]
+    });
+  };
+  const removeTier = (index: number) =>
+    onChange({
+      ...table,
+      growthThresholds: table.growthThresholds.filter((_, i) => i !== index),
+      multiples: table.multiples.filter((_, i) => i !== index)
+    });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left py-2 pr-2 font-normal text-xs">Growth ≥ ↓ / NRR ≥ →</th>
+            {table.nrrThresholds.map((threshold, column) => (
+              <th key={column} className="py-2 px-1">
+                <input
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => setThreshold('nrrThresholds', column, Number(e.target.value))}
+                  className={fieldClass}
+                />
+              </th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {table.multiples.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  value={table.growthThresholds[rowIndex]}
+                  onChange={(e) => setThreshold('growthThresholds', rowIndex, Number(e.target.value))}
+                  className={fieldClass}
+                />
+              </td>
+              {row.map((multiple, column) => (
+                <td key={column} className="py-1 px-1">
+                  <input
+                    type="number"
+                    value={multiple}
+                    onChange={(e) => setMultiple(rowIndex, column, Number(e.target.value))}
+                    min="0"
+                    step="0.5"
+                    className={fieldClass}
+                  />
+                </td>
+              ))}
+              <td className="py-1 pl-1">
+                <button
+                  onClick={() => removeTier(rowIndex)}
+                  disabled={table.multiples.length === 1}
+                  className="px-2 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition-colors text-xs disabled:opacity-50"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={addTier} className={`${buttonClass} mt-2`}>+ Add growth tier</button>
+    </div>
+  );
+};
+
+// Low/base/high valuation from three methods, with the inputs behind each
+const ValuationPanel: React.FC<{
+  range: ValuationRange;
+  settings: ValuationSettings;
+  onChange: (settings: ValuationSettings) => void;
+}> = ({ range, settings, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const update = (changes: Partial<ValuationSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-card border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <span className="text-3xl">💰</span>
+          Valuation
+        </h3>
+        <button onClick={() => setEditing(!editing)} className={buttonClass}>
+          {editing ? 'Done' : 'Edit assumptions'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+        {([['Low', range.low], ['Base', range.base], ['High', range.high]] as const).map(([label, value]) => (
+          <div key={label} className="p-4 bg-primary/10 rounded-lg">
+            <div className="text-sm text-muted-foreground mb-1">{label}</div>
+            <div className={`font-bold text-primary ${label === 'Base' ? 'text-3xl' : 'text-2xl'}`}>
+              {formatCurrency(value)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left py-2 pr-2">Method</th>
+              <th className="text-right py-2 px-2">Low</th>
+              <th className="text-right py-2 px-2">Base</th>
+              <th className="text-right py-2 px-2">High</th>
+              <th className="text-left py-2 pl-4">Assumptions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {range.methods.map(method => (
+              <tr key={method.id} className="border-t border-border align-top">
+                <td className="py-2 pr-2 font-semibold text-foreground">{method.label}</td>
+                <td className="py-2 px-2 text-right">{formatCurrency(method.low)}</td>
+                <td className="py-2 px-2 text-right font-semibold">{formatCurrency(method.base)}</td>
+                <td className="py-2 px-2 text-right">{formatCurrency(method.high)}</td>
+                <td className="py-2 pl-4 text-xs text-muted-foreground">
+                  {method.assumptions.map(line => <div key={line}>{line}</div>)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-4 text-sm text-muted-foreground text-center">
+        Range spans every method; the base case is the median of the three
+      </div>
+
+      {editing && (
+        <div className="mt-6 pt-6 border-t border-border space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-foreground mb-2">ARR Multiples (growth % YoY × NRR %)</h4>
+            <MultipleTableEditor table={settings.arrMultiples} onChange={(arrMultiples) => update({ arrMultiples })} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <NumberField label="Discount rate" value={settings.discountRate} suffix="%" onChange={(discountRate) => update({ discountRate })} />
+            <NumberField label="Terminal growth" value={settings.terminalGrowth} suffix="%" onChange={(terminalGrowth) => update({ terminalGrowth })} />
+            <NumberField label="Revenue multiple low" value={settings.revenueMultipleLow} suffix="x" step={0.5} onChange={(revenueMultipleLow) => update({ revenueMultipleLow })} />
+            <NumberField label="Revenue multiple high" value={settings.revenueMultipleHigh} suffix="x" step={0.5} onChange={(revenueMultipleHigh) => update({ revenueMultipleHigh })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValuationPanel;
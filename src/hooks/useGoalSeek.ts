@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GoalSeekRequest, GoalSeekResult } from '../lib/goalSeek';
+
+// Runs goal seek solves in a Web Worker. `solved` is the latest answer with
+// the request it answers; a solve started before it finishes replaces it.
+export const useGoalSeek = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+  const pending = useRef<GoalSeekRequest | null>(null);
+  const [solved, setSolved] = useState<{ request: GoalSeekRequest; result: GoalSeekResult } | null>(null);
+  const [solving, setSolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../lib/goalSeek.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result: GoalSeekResult }>) => {
+      if (event.data.id !== requestId.current || !pending.current) return;
+      setSolved({ request: pending.current, result: event.data.result });
+      setSolving(false);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      setError(`The solve failed: ${event.message || 'unknown error'}`);
+      setSolving(false);
+    };
+    worker.onmessageerror = () => {
+      setError('The solve failed: its answer could not be read.');
+      setSolving(false);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const solve = (request: GoalSeekRequest) => {
+    const id = ++requestId.current;
+    pending.current = request;
+    setError(null);
+    setSolving(true);
+    workerRef.current?.postMessage({ id, request });
+  };
+
+  // Drops the last answer and any solve still running
+  const clear = () => {
+    requestId.current++;
+    pending.current = null;
+    setSolved(null);
+    setSolving(false);
+    setError(null);
+  };
+
+  return { solve, clear, solved, solving, error };
+};
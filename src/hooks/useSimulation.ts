@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Scenario, SimulationResult } from '../lib/types';
+
+// Wait for the sliders to settle before starting a new batch of runs
+const DEBOUNCE_MS = 300;
+
+// Runs the Monte Carlo simulation for `scenario` in a Web Worker whenever it
+// changes. Returns the latest result (null until the first one arrives, or
+// when disabled), whether a newer one is being computed, why the last batch
+// failed, and a way to stop the batch in progress.
+export const useSimulation = (scenario: Scenario, enabled: boolean) => {
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped on cancel, which needs a fresh worker as a busy one cannot be
+  // interrupted
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const worker = new Worker(new URL('../lib/simulation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result: SimulationResult }>) => {
+      if (event.data.id !== requestId.current) return;
+      setResult(event.data.result);
+      setRunning(false);
+      setError(null);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      setError(`The simulation failed: ${event.message || 'unknown error'}`);
+      setRunning(false);
+    };
+    worker.onmessageerror = () => {
+      setError('The simulation failed: its result could not be read.');
+      setRunning(false);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      setRunning(false);
+    };
+  }, [enabled, generation]);
+
+  useEffect(() => {
+    if (enabled) return;
+    setResult(null);
+    setError(null);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const id = ++requestId.current;
+    setRunning(true);
+    const timer = setTimeout(() => {
+      // Skipped if cancelled while waiting
+      if (id === requestId.current) workerRef.current?.postMessage({ id, scenario });
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [scenario, enabled]);
+
+  // Keeps the last result; the next change to the scenario runs again
+  const cancel = () => {
+    requestId.current++;
+    setGeneration(g => g + 1);
+  };
+
+  return { result, running, error, cancel };
+};
@@ -0,0 +1,134 @@
+import type { AcquisitionSchedule, CalculatorState, FunnelSettings, Scenario } from './types';
+
+export const FLAT_SEASONALITY = [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1];
+
+export const DEFAULT_FUNNEL: FunnelSettings = {
+  visitors: 20000,
+  signupRate: 5,
+  trialRate: 40,
+  paidRate: 25,
+  trialDays: 14,
+  costPerVisitor: 0.5,
+  freeUserCost: 0.2,
+  freeUserChurn: 10
+};
+
+export const DEFAULT_ACQUISITION: AcquisitionSchedule = {
+  mode: 'volume',
+  marketingBudget: 5000,
+  funnel: DEFAULT_FUNNEL,
+  monthlyGrowth: 0,
+  seasonality: FLAT_SEASONALITY,
+  steps: []
+};
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Manual customers per month, or in auto mode enough to reach the target
+// income in a month at the average payment
+export const resolveCustomersPerMonth = (scenario: CalculatorState): number => {
+  if (scenario.customersPerMonth !== null) return scenario.customersPerMonth;
+  return scenario.avgMonthlyRevenue > 0
+    ? Math.ceil(scenario.targetIncome / scenario.avgMonthlyRevenue)
+    : 0;
+};
+
+// Starting level of the schedule: customers per month in volume mode, the
+// marketing spend per month in budget mode, visitors in funnel mode
+export const baseAcquisitionLevel = (scenario: Scenario): number => {
+  switch (scenario.acquisition.mode) {
+    case 'budget':
+      return scenario.acquisition.marketingBudget;
+    case 'funnel':
+      return scenario.acquisition.funnel.visitors;
+    case 'volume':
+      return resolveCustomersPerMonth(scenario);
+  }
+};
+
+// Level of the schedule in every month of the horizon. A step replaces the
+// level from its month on; growth compounds monthly from the most recent
+// step (or month 1); seasonality then scales each calendar month.
+export const acquisitionLevels = (scenario: Scenario): number[] => {
+  const { acquisition, months, startDate } = scenario;
+  const startMonthIndex = Number(startDate.slice(5, 7)) - 1;
+  const steps = [...acquisition.steps].sort((a, b) => a.month - b.month);
+  const growth = 1 + acquisition.monthlyGrowth / 100;
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = index + 1;
+    const step = steps.filter(s => s.month <= month).pop();
+    const level = step ? step.value : baseAcquisitionLevel(scenario);
+    const since = step ? step.month : 1;
+    const season = acquisition.seasonality[(startMonthIndex + index) % 12] ?? 1;
+    return Math.max(level * growth ** (month - since) * season, 0);
+  });
+};
+
+// Share of visitors who end up paying
+export const funnelConversion = (funnel: FunnelSettings): number =>
+  (funnel.signupRate / 100) * (funnel.trialRate / 100) * (funnel.paidRate / 100);
+
+// Spend per converted customer once the funnel runs steadily
+export const funnelCac = (funnel: FunnelSettings): number => {
+  const conversion = funnelConversion(funnel);
+  return conversion > 0 ? funnel.costPerVisitor / conversion : 0;
+};
+
+export interface FunnelMonth {
+  visitors: number;
+  signups: number;
+  trials: number;
+  // First payments this month, from trials started up to a term earlier
+  converted: number;
+  freeUsers: number;
+  spend: number;
+}
+
+const DAYS_PER_MONTH = 30;
+
+// Runs the schedule's visitors through the funnel. A trial pays after
+// `trialDays`, split between the two months either side when that is not a
+// whole number of months; payments due after the horizon are dropped.
+export const projectFunnel = (scenario: Scenario): FunnelMonth[] => {
+  const { funnel } = scenario.acquisition;
+  const lag = Math.max(funnel.trialDays, 0) / DAYS_PER_MONTH;
+  const wholeMonths = Math.floor(lag);
+  const spill = lag - wholeMonths;
+  const visitors = acquisitionLevels(scenario);
+  const converted = new Array<number>(visitors.length).fill(0);
+  const convert = (index: number, count: number) => {
+    if (index < converted.length) converted[index] += count;
+  };
+
+  let freeUsers = 0;
+  return visitors.map((count, index) => {
+    const signups = count * (funnel.signupRate / 100);
+    const trials = signups * (funnel.trialRate / 100);
+    const paying = trials * (funnel.paidRate / 100);
+    convert(index + wholeMonths, paying * (1 - spill));
+    convert(index + wholeMonths + 1, paying * spill);
+    freeUsers = Math.max(freeUsers * (1 - funnel.freeUserChurn / 100) + signups - converted[index], 0);
+    return {
+      visitors: count,
+      signups,
+      trials,
+      converted: converted[index],
+      freeUsers,
+      spend: count * funnel.costPerVisitor
+    };
+  });
+};
+
+// New customers per month. In budget mode spend buys customers at the
+// blended CAC; in funnel mode they are the funnel's conversions.
+export const newCustomerSchedule = (scenario: Scenario, blendedCac: number): number[] => {
+  switch (scenario.acquisition.mode) {
+    case 'volume':
+      return acquisitionLevels(scenario);
+    case 'budget':
+      return acquisitionLevels(scenario).map(spend => (blendedCac > 0 ? spend / blendedCac : 0));
+    case 'funnel':
+      return projectFunnel(scenario).map(month => month.converted);
+  }
+};
@@ -0,0 +1,216 @@
+import { normalizeHeader, parseAmount, parseCsv, parseMonth } from './csv';
+import type { ActualMonth, ActualsData, CalculatorState, MonthData } from './types';
+
+export const DEFAULT_ACTUALS: ActualsData = {
+  months: [],
+  continueFromActuals: false
+};
+
+type ActualField = Exclude<keyof ActualMonth, 'date'>;
+
+// Accepted header spellings for each column, after normalizeHeader
+const COLUMN_ALIASES: Record<ActualField | 'date', string[]> = {
+  date: ['month', 'date', 'period'],
+  mrr: ['mrr', 'monthly recurring revenue', 'revenue'],
+  newCustomers: ['new customers', 'new', 'new subscribers', 'acquired'],
+  churnedCustomers: ['churned customers', 'churned', 'churn', 'lost customers'],
+  activeCustomers: ['active customers', 'customers', 'active', 'subscribers'],
+  expansionRevenue: ['expansion', 'expansion revenue', 'expansion mrr'],
+  costs: ['costs', 'total costs', 'operating costs', 'expenses']
+};
+
+export type ActualsImport =
+  | { ok: true; months: ActualMonth[]; columns: ActualField[] }
+  | { ok: false; error: string };
+
+// Reads a monthly actuals CSV: a month column plus any of the metric
+// columns. Rows are sorted by month; a repeated month keeps its last row.
+export const parseActualsCsv = (text: string): ActualsImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { ok: false, error: 'The file is empty.' };
+
+  const headers = header.map(normalizeHeader);
+  const indexOf = (field: ActualField | 'date') =>
+    headers.findIndex(h => COLUMN_ALIASES[field].includes(h));
+  const dateIndex = indexOf('date');
+  if (dateIndex < 0) return { ok: false, error: 'No month column found (expected a "Month" or "Date" header).' };
+
+  const fields = (Object.keys(COLUMN_ALIASES) as (ActualField | 'date')[])
+    .filter((field): field is ActualField => field !== 'date')
+    .map(field => ({ field, index: indexOf(field) }))
+    .filter(({ index }) => index >= 0);
+  if (fields.length === 0) {
+    return { ok: false, error: 'No metric columns found (expected MRR, new customers, churned customers, expansion or costs).' };
+  }
+
+  const byDate = new Map<string, ActualMonth>();
+  for (const [rowIndex, row] of rows.entries()) {
+    const date = parseMonth(row[dateIndex] ?? '');
+    if (!date) return { ok: false, error: `Row ${rowIndex + 2}: "${row[dateIndex]}" is not a month (use YYYY-MM).` };
+    const month: ActualMonth = { date };
+    fields.forEach(({ field, index }) => {
+      const value = parseAmount(row[index]);
+      if (value !== null) month[field] = value;
+    });
+    byDate.set(date, month);
+  }
+  if (byDate.size === 0) return { ok: false, error: 'The file has no data rows.' };
+
+  return {
+    ok: true,
+    months: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    columns: fields.map(({ field }) => field)
+  };
+};
+
+// With actuals imported, the model starts at the first real month so the plan
+// lines up with them
+export const actualsStartDate = (actuals: ActualsData): string | null =>
+  actuals.months.length > 0 ? `${actuals.months[0].date}-01` : null;
+
+// Model month (1 = the start date's month) that a "YYYY-MM" date falls in
+export const modelMonthOf = (startDate: string, date: string): number => {
+  const [startYear, startMonth] = startDate.split('-').map(Number);
+  const [year, month] = date.split('-').map(Number);
+  return (year - startYear) * 12 + (month - startMonth) + 1;
+};
+
+// Actuals keyed by model month, dropping any before the start date
+export const alignActuals = (months: ActualMonth[], startDate: string): Map<number, ActualMonth> =>
+  new Map(
+    months
+      .map(actual => [modelMonthOf(startDate, actual.date), actual] as const)
+      .filter(([month]) => month >= 1)
+  );
+
+export interface VarianceField {
+  key: ActualField;
+  label: string;
+  format: 'currency' | 'count';
+  projected: (month: MonthData) => number;
+  // Whether an actual above plan is good news
+  higherIsBetter: boolean;
+}
+
+export const VARIANCE_FIELDS: VarianceField[] = [
+  { key: 'mrr', label: 'MRR', format: 'currency', projected: d => d.mrr, higherIsBetter: true },
+  { key: 'newCustomers', label: 'New customers', format: 'count', projected: d => d.newCustomers, higherIsBetter: true },
+  { key: 'churnedCustomers', label: 'Churned', format: 'count', projected: d => d.churnedCustomers, higherIsBetter: false },
+  { key: 'activeCustomers', label: 'Active customers', format: 'count', projected: d => d.activeCustomers, higherIsBetter: true },
+  { key: 'expansionRevenue', label: 'Expansion', format: 'currency', projected: d => d.expansionRevenue, higherIsBetter: true },
+  { key: 'costs', label: 'Costs', format: 'currency', projected: d => d.operatingCosts, higherIsBetter: false }
+];
+
+export interface VarianceRow {
+  month: number;
+  date: string;
+  cells: {
+    field: VarianceField;
+    actual: number;
+    projected: number;
+    variance: number;
+    // Variance as a share of the projection; null when nothing was projected
+    percent: number | null;
+  }[];
+}
+
+// Actual minus projected for every imported month inside the horizon
+export const varianceRows = (projections: MonthData[], months: ActualMonth[], startDate: string): VarianceRow[] =>
+  [...alignActuals(months, startDate)]
+    .filter(([month]) => month <= projections.length)
+    .map(([month, actual]) => {
+      const projectedMonth = projections[month - 1];
+      return {
+        month,
+        date: actual.date,
+        cells: VARIANCE_FIELDS.flatMap(field => {
+          const value = actual[field.key];
+          if (value === undefined) return [];
+          const projected = field.projected(projectedMonth);
+          return [{
+            field,
+            actual: value,
+            projected,
+            variance: value - projected,
+            percent: projected !== 0 ? ((value - projected) / Math.abs(projected)) * 100 : null
+          }];
+        })
+      };
+    });
+
+// Churn, acquisition and expansion as the actuals show them. Each is null
+// when the file lacks the columns to estimate it.
+export interface ActualsFit {
+  churnRate: number | null;
+  customersPerMonth: number | null;
+  expansionRate: number | null;
+}
+
+// Months of new customers averaged for the acquisition level
+const RECENT_MONTHS = 3;
+
+export const fitActuals = (months: ActualMonth[]): ActualsFit => {
+  // Without an active customers column the base is rebuilt from new minus
+  // churned, starting from zero before the first month
+  let active = 0;
+  const activeByMonth = months.map(month => {
+    active = month.activeCustomers ?? active + (month.newCustomers ?? 0) - (month.churnedCustomers ?? 0);
+    return active;
+  });
+
+  let churned = 0;
+  let exposed = 0;
+  let expansion = 0;
+  let expansionBase = 0;
+  months.forEach((month, index) => {
+    if (index === 0) return;
+    const previous = months[index - 1];
+    if (month.churnedCustomers !== undefined && activeByMonth[index - 1] > 0) {
+      churned += month.churnedCustomers;
+      exposed += activeByMonth[index - 1];
+    }
+    if (month.expansionRevenue !== undefined && previous.mrr !== undefined && previous.mrr > 0) {
+      expansion += month.expansionRevenue;
+      expansionBase += previous.mrr;
+    }
+  });
+
+  const recent = months.filter(m => m.newCustomers !== undefined).slice(-RECENT_MONTHS);
+  return {
+    churnRate: exposed > 0 ? (churned / exposed) * 100 : null,
+    customersPerMonth: recent.length > 0
+      ? Math.round(recent.reduce((sum, m) => sum + (m.newCustomers ?? 0), 0) / recent.length)
+      : null,
+    expansionRate: expansionBase > 0 ? (expansion / expansionBase) * 100 : null
+  };
+};
+
+// Writes the fitted rates into the inputs. Churn becomes a steady rate for
+// every plan, and acquisition a fixed number of customers a month.
+export const applyFit = (state: CalculatorState, fit: ActualsFit): CalculatorState => {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  let next = state;
+  if (fit.churnRate !== null) {
+    next = {
+      ...next,
+      churnRate: round(fit.churnRate),
+      retentionCurve: { type: 'exponential' },
+      plans: next.plans.map(plan => ({ ...plan, churnRate: undefined }))
+    };
+  }
+  if (fit.customersPerMonth !== null) {
+    next = {
+      ...next,
+      customersPerMonth: fit.customersPerMonth,
+      acquisition: { ...next.acquisition, mode: 'volume' }
+    };
+  }
+  if (fit.expansionRate !== null) {
+    next = {
+      ...next,
+      expansionRevenue: round(fit.expansionRate),
+      plans: next.plans.map(plan => ({ ...plan, expansionRate: undefined }))
+    };
+  }
+  return next;
+};
@@ -0,0 +1,81 @@
+import { resolveCustomersPerMonth } from './acquisition';
+import { scalePlanPrice } from './pricing';
+import type { RetentionCurve, Scenario } from './types';
+
+// Scale one model input by a multiplier (1 = unchanged). Per-plan overrides
+// are scaled along with the scenario-wide value so the whole input moves.
+// Shared by the Monte Carlo simulation and the sensitivity analysis.
+
+const clampPercent = (value: number) => Math.min(Math.max(value, 0), 100);
+
+const scaleRetentionCurve = (curve: RetentionCurve, multiplier: number): RetentionCurve => {
+  switch (curve.type) {
+    case 'exponential':
+      return curve;
+    case 'cliff':
+      return { type: 'cliff', firstMonthChurn: clampPercent(curve.firstMonthChurn * multiplier) };
+    case 'custom':
+      // Scale the share lost by each age rather than the share kept
+      return { type: 'custom', retention: curve.retention.map(r => clampPercent(100 - (100 - r) * multiplier)) };
+  }
+};
+
+export const scaleChurn = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  churnRate: clampPercent(scenario.churnRate * multiplier),
+  retentionCurve: scaleRetentionCurve(scenario.retentionCurve, multiplier),
+  plans: scenario.plans.map(plan => plan.churnRate === undefined
+    ? plan
+    : { ...plan, churnRate: clampPercent(plan.churnRate * multiplier) })
+});
+
+// Pins auto mode to its current value first, so the level scales rather than
+// being recomputed from the target
+export const scaleAcquisition = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  customersPerMonth: resolveCustomersPerMonth(scenario) * multiplier,
+  acquisition: {
+    ...scenario.acquisition,
+    marketingBudget: scenario.acquisition.marketingBudget * multiplier,
+    funnel: { ...scenario.acquisition.funnel, visitors: scenario.acquisition.funnel.visitors * multiplier },
+    steps: scenario.acquisition.steps.map(step => ({ ...step, value: step.value * multiplier }))
+  }
+});
+
+export const scaleExpansion = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  expansionRevenue: scenario.expansionRevenue * multiplier,
+  plans: scenario.plans.map(plan => plan.expansionRate === undefined
+    ? plan
+    : { ...plan, expansionRate: plan.expansionRate * multiplier })
+});
+
+// A funnel's CAC follows from its spend per visitor
+export const scaleCac = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  cac: scenario.cac * multiplier,
+  acquisition: {
+    ...scenario.acquisition,
+    funnel: { ...scenario.acquisition.funnel, costPerVisitor: scenario.acquisition.funnel.costPerVisitor * multiplier }
+  },
+  plans: scenario.plans.map(plan => plan.cac === undefined ? plan : { ...plan, cac: plan.cac * multiplier })
+});
+
+// Auto acquisition is derived from the average payment, so it is pinned to
+// keep a price change from also changing volume
+export const scalePrice = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  avgMonthlyRevenue: scenario.avgMonthlyRevenue * multiplier,
+  customersPerMonth: resolveCustomersPerMonth(scenario),
+  plans: scenario.plans.map(plan => scalePlanPrice(plan, multiplier))
+});
+
+export const scaleSupportCost = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  supportCostPerUser: scenario.supportCostPerUser * multiplier
+});
+
+export const scaleInfrastructureCost = (scenario: Scenario, multiplier: number): Scenario => ({
+  ...scenario,
+  infrastructureCostPerUser: scenario.infrastructureCostPerUser * multiplier
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, parseCsv, parseMonth } from './csv';
+
+describe('parseCsv', () => {
+  it('handles quoted cells, CRLF endings, a BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFa,"b, ""c"""\r\n\r\n1,"2\n3"\n')).toEqual([['a', 'b, "c"'], ['1', '2\n3']]);
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads currency, separators and accounting negatives', () => {
+    expect(parseAmount('$1,234.50')).toBe(1234.5);
+    expect(parseAmount('(200)')).toBe(-200);
+    expect(parseAmount(' ')).toBeNull();
+    expect(parseAmount('n/a')).toBeNull();
+  });
+});
+
+describe('parseMonth', () => {
+  it('reads ISO, month/year and US dates', () => {
+    expect(parseMonth('2025-03')).toBe('2025-03');
+    expect(parseMonth('2025-3-01 14:02')).toBe('2025-03');
+    expect(parseMonth('03/2025')).toBe('2025-03');
+    expect(parseMonth('3/1/2025')).toBe('2025-03');
+  });
+
+  it('rejects months outside 1-12', () => {
+    expect(parseMonth('2024-13')).toBeNull();
+    expect(parseMonth('2024-00')).toBeNull();
+    expect(parseMonth('13/1/2024')).toBeNull();
+    expect(parseMonth('0/2024')).toBeNull();
+  });
+});
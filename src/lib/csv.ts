@@ -0,0 +1,78 @@
+// Splits CSV text into rows of cells. Handles quoted cells with embedded
+// commas, quotes ("") and line breaks, CRLF endings and a leading BOM; blank
+// lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+// Lower-case, punctuation-free form of a header, so "New Customers",
+// "new_customers" and "new-customers" all match
+export const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Reads "$1,234.50", "1234.5" or "(200)" as numbers; null when blank or not
+// numeric
+export const parseAmount = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  const negative = /^\(.*\)$/.test(trimmed);
+  const number = Number(trimmed.replace(/[()$,\s]/g, ''));
+  if (!Number.isFinite(number)) return null;
+  return negative ? -number : number;
+};
+
+const pad = (month: number) => String(month).padStart(2, '0');
+
+const toMonth = (year: string, month: string) => {
+  const number = Number(month);
+  return number >= 1 && number <= 12 ? `${year}-${pad(number)}` : null;
+};
+
+// "2025-03", "2025-03-01 14:02", "03/2025" or US "3/1/2025" to "2025-03";
+// null when unrecognised or the month is not 1-12
+export const parseMonth = (value: string): string | null => {
+  const trimmed = value.trim();
+  let match = /^(\d{4})-(\d{1,2})(?:-\d{1,2})?/.exec(trimmed);
+  if (match) return toMonth(match[1], match[2]);
+  match = /^(\d{1,2})\/(?:\d{1,2}\/)?(\d{4})/.exec(trimmed);
+  if (match) return toMonth(match[2], match[1]);
+  return null;
+};
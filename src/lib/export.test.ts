@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './export';
+
+describe('toCsv', () => {
+  it('writes numbers raw and quotes text with delimiters', () => {
+    expect(toCsv([[{ value: 'Plan, "Pro"' }, { value: -12.5, format: 'currency' }], [], [null, { value: 3 }]]))
+      .toBe('"Plan, ""Pro""",-12.5\r\n\r\n,3');
+  });
+
+  it('keeps text that looks like a formula as text', () => {
+    expect(toCsv([[
+      { value: '=HYPERLINK("http://example.com")' },
+      { value: '+1' },
+      { value: '-2' },
+      { value: '@SUM(A1)' },
+      { value: 'Pro' }
+    ]])).toBe(`"'=HYPERLINK(""http://example.com"")",'+1,'-2,'@SUM(A1),Pro`);
+  });
+});
@@ -0,0 +1,336 @@
+import { FLAT_SEASONALITY, MONTH_NAMES, resolveCustomersPerMonth } from './acquisition';
+import { describeHireTrigger } from './finance';
+import { describePriceChange, scheduledPriceChanges } from './pricing';
+import { resolvePlans } from './projections';
+import { describeRetentionCurve } from './retention';
+import type { BusinessMetrics, MonthData, ProjectionResult, Scenario } from './types';
+
+export type CellFormat = 'currency' | 'percent' | 'months' | 'ratio' | 'count';
+
+export interface Cell {
+  value: string | number;
+  format?: CellFormat;
+}
+
+// A sheet is a grid of cells; null leaves the cell empty. Both the CSV and
+// the XLSX writers render the same grid, so the two files always match.
+export type SheetRow = (Cell | null)[];
+
+interface ExportColumn {
+  key: keyof MonthData;
+  label: string;
+  format?: CellFormat;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'month', label: 'Month', format: 'count' },
+  { key: 'date', label: 'Date' },
+  { key: 'mrr', label: 'MRR', format: 'currency' },
+  { key: 'revenue', label: 'Cumulative Revenue', format: 'currency' },
+  { key: 'netRevenue', label: 'Cumulative Net Revenue', format: 'currency' },
+  { key: 'expansionRevenue', label: 'Expansion Revenue', format: 'currency' },
+  { key: 'newMrr', label: 'New MRR', format: 'currency' },
+  { key: 'reactivationMrr', label: 'Reactivation MRR', format: 'currency' },
+  { key: 'expansionMrr', label: 'Expansion MRR', format: 'currency' },
+  { key: 'contractionMrr', label: 'Contraction MRR', format: 'currency' },
+  { key: 'churnedMrr', label: 'Churned MRR', format: 'currency' },
+  { key: 'activeCustomers', label: 'Active Customers', format: 'count' },
+  { key: 'newCustomers', label: 'New Customers', format: 'count' },
+  { key: 'churnedCustomers', label: 'Churned Customers', format: 'count' },
+  { key: 'cumulativeCustomers', label: 'Cumulative Customers Acquired', format: 'count' },
+  { key: 'freeUsers', label: 'Free Users', format: 'count' },
+  { key: 'recognizedRevenue', label: 'Recognized Revenue', format: 'currency' },
+  { key: 'cashCollected', label: 'Cash Collected', format: 'currency' },
+  { key: 'deferredRevenue', label: 'Deferred Revenue Balance', format: 'currency' },
+  { key: 'costOfRevenue', label: 'Cost of Revenue', format: 'currency' },
+  { key: 'acquisitionCost', label: 'Acquisition Cost', format: 'currency' },
+  { key: 'fixedCosts', label: 'Fixed Costs', format: 'currency' },
+  { key: 'payroll', label: 'Payroll', format: 'currency' },
+  { key: 'freeUserCost', label: 'Free User Cost', format: 'currency' },
+  { key: 'headcount', label: 'Headcount', format: 'count' },
+  { key: 'operatingCosts', label: 'Operating Costs', format: 'currency' },
+  { key: 'netIncome', label: 'Net Income', format: 'currency' },
+  { key: 'grossMargin', label: 'Gross Margin', format: 'percent' },
+  { key: 'contributionMargin', label: 'Contribution Margin', format: 'percent' },
+  { key: 'profit', label: 'Cumulative Profit', format: 'currency' },
+  { key: 'funding', label: 'Funding', format: 'currency' },
+  { key: 'cashBalance', label: 'Cash Balance', format: 'currency' }
+];
+
+const text = (value: string): Cell => ({ value });
+const cell = (value: number, format: CellFormat): Cell => ({ value, format });
+
+const acquisitionRows = (scenario: Scenario): SheetRow[] => {
+  const { acquisition } = scenario;
+  const { funnel } = acquisition;
+  const rows: SheetRow[] = acquisition.mode === 'budget'
+    ? [[text('Marketing Budget Per Month'), cell(acquisition.marketingBudget, 'currency'), text('budget mode')]]
+    : acquisition.mode === 'funnel'
+      ? [
+        [text('Visitors Per Month'), cell(funnel.visitors, 'count'), text('funnel mode')],
+        [text('Visitor → Signup'), cell(funnel.signupRate, 'percent')],
+        [text('Signup → Trial'), cell(funnel.trialRate, 'percent')],
+        [text('Trial → Paid'), cell(funnel.paidRate, 'percent')],
+        [text('Trial Length (days)'), cell(funnel.trialDays, 'count')],
+        [text('Cost per Visitor'), cell(funnel.costPerVisitor, 'currency')],
+        [text('Free User Cost/Month'), cell(funnel.freeUserCost, 'currency')],
+        [text('Free User Monthly Churn'), cell(funnel.freeUserChurn, 'percent')]
+      ]
+      : [[
+        text('Customers Acquired Per Month'),
+        cell(resolveCustomersPerMonth(scenario), 'count'),
+        text(scenario.customersPerMonth === null ? 'auto' : 'manual')
+      ]];
+  rows.push([text('Acquisition Growth (MoM)'), cell(acquisition.monthlyGrowth, 'percent')]);
+  if (acquisition.seasonality.some((m, i) => m !== FLAT_SEASONALITY[i])) {
+    rows.push([
+      text('Seasonality'),
+      text(acquisition.seasonality.map((m, i) => `${MONTH_NAMES[i]} ×${m}`).join(', '))
+    ]);
+  }
+  acquisition.steps.forEach(step => {
+    rows.push([
+      text(`Step Change at Month ${step.month}`),
+      acquisition.mode === 'budget' ? cell(step.value, 'currency') : cell(step.value, 'count')
+    ]);
+  });
+  return rows;
+};
+
+const startRows = (scenario: Scenario): SheetRow[] => {
+  const { start } = scenario;
+  if (start.activeCustomers <= 0 && start.cumulativeProfit === 0) return [];
+  return [
+    [text('Starting Customers'), cell(start.activeCustomers, 'count')],
+    [
+      text('Starting MRR'),
+      start.mrr === null ? text('At plan prices') : cell(start.mrr, 'currency')
+    ],
+    [text('Starting Cumulative Profit'), cell(start.cumulativeProfit, 'currency')]
+  ];
+};
+
+export const assumptionRows = (scenario: Scenario): SheetRow[] => {
+  const rows: SheetRow[] = [
+    [text('Input Assumptions')],
+    [text('Start Date'), text(scenario.startDate)],
+    [text('Horizon (months)'), cell(scenario.months, 'count')],
+    [text('Fiscal Year Starts'), text(MONTH_NAMES[scenario.fiscalYearStart - 1])],
+    ...startRows(scenario),
+    [text('Target Monthly Income'), cell(scenario.targetIncome, 'currency')],
+    [text('Average User Payment/Month'), cell(scenario.avgMonthlyRevenue, 'currency')],
+    ...acquisitionRows(scenario),
+    [text('Customer Acquisition Cost'), cell(scenario.cac, 'currency')],
+    [text('Steady Monthly Churn Rate'), cell(scenario.churnRate, 'percent')],
+    [text('Retention Curve'), text(describeRetentionCurve(scenario.retentionCurve, scenario.churnRate))],
+    [text('Monthly Expansion Rate'), cell(scenario.expansionRevenue, 'percent')],
+    [text('Monthly Reactivation Rate'), cell(scenario.reactivationRate, 'percent')],
+    [text('Support Cost per User'), cell(scenario.supportCostPerUser, 'currency')],
+    [text('Infrastructure Cost per User'), cell(scenario.infrastructureCostPerUser, 'currency')],
+    [text('Third-party Fees per User'), cell(scenario.thirdPartyCostPerUser, 'currency')],
+    [text('Payment Processing'), cell(scenario.paymentProcessingRate, 'percent')],
+    [text('DCF Discount Rate'), cell(scenario.valuation.discountRate, 'percent')],
+    [text('DCF Terminal Growth'), cell(scenario.valuation.terminalGrowth, 'percent')],
+    [text('Revenue Multiple Low'), cell(scenario.valuation.revenueMultipleLow, 'ratio')],
+    [text('Revenue Multiple High'), cell(scenario.valuation.revenueMultipleHigh, 'ratio')]
+  ];
+
+  if (scenario.plans.length > 0) {
+    const plans = resolvePlans(scenario);
+    const planNames = new Map(plans.map(plan => [plan.id, plan.name]));
+    rows.push([], [
+      text('Plan'),
+      text('Monthly Price'),
+      text('Probability'),
+      text('Monthly Churn'),
+      text('CAC'),
+      text('Expansion'),
+      text('Billing Term (months)'),
+      text('Prepay Discount'),
+      text('Plan Changes'),
+      text('Price Changes')
+    ]);
+    plans.forEach((plan, index) => {
+      const movements = plan.movements
+        .map(m => `${m.monthlyRate}%/mo to ${planNames.get(m.toPlanId)}`)
+        .join('; ');
+      const priceChanges = scheduledPriceChanges(scenario.plans[index]).map(describePriceChange).join('; ');
+      rows.push([
+        text(plan.name),
+        cell(plan.price, 'currency'),
+        cell(scenario.plans[index].probability, 'percent'),
+        cell(plan.churnRate, 'percent'),
+        cell(plan.cac, 'currency'),
+        cell(plan.expansionRate, 'percent'),
+        cell(plan.billingTermMonths, 'count'),
+        cell(scenario.plans[index].prepayDiscount ?? 0, 'percent'),
+        movements ? text(movements) : null,
+        priceChanges ? text(priceChanges) : null
+      ]);
+    });
+  }
+
+  const { finance } = scenario;
+  rows.push([], [text('Starting Cash'), cell(finance.startingCash, 'currency')]);
+  if (finance.fixedCosts.length > 0) {
+    rows.push([], [text('Fixed Cost'), text('Per Month'), text('Start Month'), text('Annual Growth')]);
+    finance.fixedCosts.forEach(cost => rows.push([
+      text(cost.name),
+      cell(cost.monthlyAmount, 'currency'),
+      cell(cost.startMonth, 'count'),
+      cell(cost.annualGrowth, 'percent')
+    ]));
+  }
+  if (finance.hires.length > 0) {
+    rows.push([], [text('Hire'), text('Monthly Salary'), text('Trigger')]);
+    finance.hires.forEach(hire => rows.push([
+      text(hire.role),
+      cell(hire.monthlySalary, 'currency'),
+      text(describeHireTrigger(hire))
+    ]));
+  }
+  if (finance.fundingEvents.length > 0) {
+    rows.push([], [text('Funding'), text('Month'), text('Amount')]);
+    finance.fundingEvents.forEach(event => rows.push([
+      text(event.label),
+      cell(event.month, 'count'),
+      cell(event.amount, 'currency')
+    ]));
+  }
+
+  return rows;
+};
+
+const metricRows = (metrics: BusinessMetrics): SheetRow[] => [
+  [text('Business Metrics')],
+  [text('Customer Lifetime Value'), cell(metrics.clv, 'currency')],
+  [text('Annual Recurring Revenue'), cell(metrics.arr, 'currency')],
+  [text('Business Valuation'), cell(metrics.valuation, 'currency')],
+  [text('Valuation Low'), cell(metrics.valuationRange.low, 'currency')],
+  [text('Valuation High'), cell(metrics.valuationRange.high, 'currency')],
+  [text('CAC Payback Period (months)'), cell(metrics.paybackPeriod, 'months')],
+  [text('Gross Margin'), cell(metrics.grossMargin, 'percent')],
+  [text('LTV:CAC Ratio'), cell(metrics.ltvCacRatio, 'ratio')],
+  [text('Net Revenue Retention'), cell(metrics.nrr, 'percent')],
+  [text('Gross Revenue Retention'), cell(metrics.grr, 'percent')],
+  metrics.ruleOf40 !== null
+    ? [text('Rule of 40'), cell(metrics.ruleOf40, 'percent')]
+    : [text('Rule of 40'), text('Horizon too short')],
+  metrics.quickRatio !== null
+    ? [text('Quick Ratio'), cell(metrics.quickRatio, 'ratio')]
+    : [text('Quick Ratio'), text('No MRR lost')],
+  metrics.breakEvenMonth > 0
+    ? [text('Break-even Month'), cell(metrics.breakEvenMonth, 'count')]
+    : [text('Break-even Month'), text('Not reached')],
+  metrics.zeroCashMonth > 0
+    ? [text('Zero-cash Month'), cell(metrics.zeroCashMonth, 'count')]
+    : [text('Zero-cash Month'), text('Never')],
+  [text('Average ARPU'), cell(metrics.averageArpu, 'currency')],
+  [],
+  [text('Valuation Method'), text('Low'), text('Base'), text('High'), text('Assumptions')],
+  ...metrics.valuationRange.methods.map(method => [
+    text(method.label),
+    cell(method.low, 'currency'),
+    cell(method.base, 'currency'),
+    cell(method.high, 'currency'),
+    text(method.assumptions.join('; '))
+  ]),
+  ...(metrics.planMetrics.length > 0
+    ? [
+      [],
+      [text('Plan'), text('LTV'), text('CAC'), text('LTV:CAC'), text('Payback (months)')],
+      ...metrics.planMetrics.map(plan => [
+        text(plan.name),
+        cell(plan.clv, 'currency'),
+        cell(plan.cac, 'currency'),
+        cell(plan.ltvCacRatio, 'ratio'),
+        cell(plan.paybackPeriod, 'months')
+      ])
+    ]
+    : [])
+];
+
+// With plans defined, each plan gets its own active customers and MRR
+// columns after the totals.
+const projectionRows = (projections: MonthData[], scenario: Scenario): SheetRow[] => {
+  const plans = scenario.plans.length > 0 ? resolvePlans(scenario) : [];
+  return [
+    [text('Monthly Projection')],
+    [
+      ...EXPORT_COLUMNS.map(column => text(column.label)),
+      ...plans.flatMap(plan => [text(`${plan.name} Customers`), text(`${plan.name} MRR`)])
+    ],
+    ...projections.map(month => [
+      ...EXPORT_COLUMNS.map(column => {
+        const value = month[column.key];
+        return typeof value === 'number' && column.format ? cell(value, column.format) : text(String(value));
+      }),
+      ...plans.flatMap(plan => [
+        cell(month.planBreakdown[plan.id]?.activeCustomers ?? 0, 'count'),
+        cell(month.planBreakdown[plan.id]?.mrr ?? 0, 'currency')
+      ])
+    ])
+  ];
+};
+
+// Header block (assumptions and summary metrics) followed by the full
+// monthly series, one blank row between sections.
+export const buildExportSheet = (scenario: Scenario, result: ProjectionResult): SheetRow[] => [
+  ...assumptionRows(scenario),
+  [],
+  ...metricRows(result.metrics),
+  [],
+  ...projectionRows(result.projections, scenario)
+];
+
+// Text that a spreadsheet would read as a formula (a plan named
+// "=HYPERLINK(...)", say) is prefixed with an apostrophe so it stays text
+const escapeCsv = (value: string | number): string => {
+  const raw = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw;
+};
+
+// Numbers are written raw (no currency symbols or separators) so spreadsheet
+// tools import them as numbers.
+export const toCsv = (rows: SheetRow[]): string =>
+  rows.map(row => row.map(c => (c ? escapeCsv(c.value) : '')).join(',')).join('\r\n');
+
+const NUMBER_FORMATS: Record<CellFormat, string> = {
+  currency: '"$"#,##0.00;[Red]-"$"#,##0.00',
+  percent: '0.0"%"',
+  months: '0.0" mo"',
+  ratio: '0.0":1"',
+  count: '#,##0'
+};
+
+export const toXlsx = async (rows: SheetRow[]): Promise<Blob> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Projection');
+
+  rows.forEach((row, rowIndex) => {
+    row.forEach((c, colIndex) => {
+      if (!c) return;
+      const target = sheet.getCell(rowIndex + 1, colIndex + 1);
+      target.value = c.value;
+      if (c.format) target.numFmt = NUMBER_FORMATS[c.format];
+    });
+    // Section titles are the only single-cell text rows
+    if (row.length === 1 && row[0] && !row[0].format) {
+      sheet.getRow(rowIndex + 1).font = { bold: true };
+    }
+  });
+  sheet.columns.forEach(column => { column.width = 24; });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,42 @@
+import type { FinancePlan, FixedCost, Hire } from './types';
+
+export const DEFAULT_FINANCE: FinancePlan = {
+  startingCash: 0,
+  fixedCosts: [],
+  hires: [],
+  fundingEvents: []
+};
+
+// Cost of a fixed line item in `month`, grown annually from its start
+export const fixedCostForMonth = (cost: FixedCost, month: number): number => {
+  if (month < cost.startMonth) return 0;
+  return cost.monthlyAmount * (1 + cost.annualGrowth / 100) ** ((month - cost.startMonth) / 12);
+};
+
+// Whether a hire's trigger is met by this month's results
+export const hireTriggered = (
+  hire: Hire,
+  month: number,
+  activeCustomers: number,
+  mrr: number
+): boolean => {
+  switch (hire.trigger.type) {
+    case 'month':
+      return month >= hire.trigger.month;
+    case 'customers':
+      return activeCustomers >= hire.trigger.activeCustomers;
+    case 'mrr':
+      return mrr >= hire.trigger.mrr;
+  }
+};
+
+export const describeHireTrigger = (hire: Hire): string => {
+  switch (hire.trigger.type) {
+    case 'month':
+      return `from month ${hire.trigger.month}`;
+    case 'customers':
+      return `at ${hire.trigger.activeCustomers.toLocaleString()} active customers`;
+    case 'mrr':
+      return `at $${hire.trigger.mrr.toLocaleString()} MRR`;
+  }
+};
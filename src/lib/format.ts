@@ -0,0 +1,14 @@
+// Compact currency labels for chart axes: $950, $12K, $1.4M, -$12K
+export const formatCurrencyTick = (value: number): string => {
+  const sign = value < 0 ? '-' : '';
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1000000) {
+    return `${sign}$${(magnitude / 1000000).toFixed(1)}M`;
+  } else if (magnitude >= 1000) {
+    return `${sign}$${(magnitude / 1000).toFixed(0)}K`;
+  }
+  return `${sign}$${magnitude}`;
+};
+
+export const formatCurrency = (value: number): string =>
+  `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString()}`;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { GOAL_INPUTS, GOAL_TARGETS, goalSeek, readTarget } from './goalSeek';
+import { DEFAULT_STATE } from './state';
+import type { Scenario } from './types';
+
+const scenario: Scenario = { ...DEFAULT_STATE, months: 24, startDate: '2025-01-01' };
+const mrr = GOAL_TARGETS.find(t => t.key === 'mrr')!;
+const activeCustomers = GOAL_TARGETS.find(t => t.key === 'activeCustomers')!;
+const customersPerMonth = GOAL_INPUTS.find(i => i.id === 'customersPerMonth')!;
+const cac = GOAL_INPUTS.find(i => i.id === 'cac')!;
+
+describe('goalSeek', () => {
+  it('converges on the fewest customers a month that reach the goal', () => {
+    const result = goalSeek(scenario, mrr, 12, customersPerMonth, 60000);
+    if (!result.feasible) throw new Error('expected a solution');
+    const at = (value: number) => readTarget(customersPerMonth.set(scenario, value), mrr, 12);
+    expect(Number.isInteger(result.value)).toBe(true);
+    expect(result.achieved).toBe(at(result.value));
+    expect(at(result.value)).toBeGreaterThanOrEqual(60000);
+    expect(at(result.value - 1)).toBeLessThan(60000);
+  });
+
+  it('reports the slider limit when the goal is out of reach', () => {
+    const result = goalSeek(scenario, mrr, 12, customersPerMonth, 10_000_000);
+    expect(result).toMatchObject({ feasible: false, best: customersPerMonth.max, reason: 'out-of-bounds' });
+    if (result.feasible) return;
+    expect(result.achieved).toBeLessThan(10_000_000);
+  });
+
+  it('says when the input does not move the target', () => {
+    const result = goalSeek(scenario, activeCustomers, 12, cac, 10_000_000);
+    expect(result).toMatchObject({ feasible: false, best: scenario.cac, reason: 'no-effect' });
+  });
+});
@@ -0,0 +1,199 @@
+import { resolveCustomersPerMonth } from './acquisition';
+import { scalePlanPrice } from './pricing';
+import { calculateProjections, weightedPlanPrice } from './projections';
+import type { AcquisitionSchedule, BusinessMetrics, CalculatorState, MonthData, Plan, Scenario } from './types';
+
+// A value read from the projection: a MonthData field at the deadline month,
+// or a summary metric (which covers the whole horizon).
+export type GoalTarget =
+  | { source: 'month'; key: keyof MonthData; label: string }
+  | { source: 'metric'; key: keyof BusinessMetrics; label: string };
+
+export const GOAL_TARGETS: GoalTarget[] = [
+  { source: 'month', key: 'mrr', label: 'MRR' },
+  { source: 'month', key: 'revenue', label: 'Cumulative revenue' },
+  { source: 'month', key: 'netRevenue', label: 'Cumulative net revenue' },
+  { source: 'month', key: 'profit', label: 'Cumulative profit' },
+  { source: 'month', key: 'activeCustomers', label: 'Active customers' },
+  { source: 'metric', key: 'arr', label: 'ARR' },
+  { source: 'metric', key: 'ltvCacRatio', label: 'LTV:CAC' },
+  { source: 'metric', key: 'clv', label: 'Customer lifetime value' },
+  { source: 'metric', key: 'nrr', label: 'Net revenue retention' },
+  { source: 'metric', key: 'valuation', label: 'Valuation' }
+];
+
+// An input the solver may change, within the bounds of its slider
+export interface GoalInput {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  prefix?: string;
+  suffix?: string;
+  // Answers are rounded to this, toward the side that still meets the goal
+  step?: number;
+  // Only offered in these acquisition modes, as no other mode reads it
+  modes?: AcquisitionSchedule['mode'][];
+  // The plan field that overrides the input for customers on that plan
+  planOverride?: 'churnRate' | 'cac' | 'expansionRate';
+  get: (state: CalculatorState) => number;
+  set: <T extends CalculatorState>(state: T, value: number) => T;
+}
+
+// Auto acquisition is derived from the average payment, so it is pinned
+// before the price moves
+const setPrice = <T extends CalculatorState>(state: T, value: number): T => {
+  const customersPerMonth = state.customersPerMonth ?? resolveCustomersPerMonth(state);
+  const current = weightedPlanPrice(state.plans);
+  if (current === null || current <= 0) return { ...state, avgMonthlyRevenue: value, customersPerMonth };
+  return {
+    ...state,
+    customersPerMonth,
+    plans: state.plans.map(plan => scalePlanPrice(plan, value / current))
+  };
+};
+
+export const GOAL_INPUTS: GoalInput[] = [
+  {
+    id: 'price',
+    label: 'Average price',
+    min: 10,
+    max: 500,
+    prefix: '$',
+    get: state => weightedPlanPrice(state.plans) ?? state.avgMonthlyRevenue,
+    set: setPrice
+  },
+  {
+    id: 'customersPerMonth',
+    label: 'Customers per month',
+    min: 1,
+    max: 500,
+    step: 1,
+    modes: ['volume'],
+    get: state => resolveCustomersPerMonth(state),
+    set: (state, value) => ({ ...state, customersPerMonth: value })
+  },
+  {
+    id: 'marketingBudget',
+    label: 'Marketing spend/month',
+    min: 0,
+    max: 100000,
+    prefix: '$',
+    modes: ['budget'],
+    get: state => state.acquisition.marketingBudget,
+    set: (state, value) => ({ ...state, acquisition: { ...state.acquisition, marketingBudget: value } })
+  },
+  {
+    id: 'churnRate',
+    label: 'Steady monthly churn',
+    min: 0,
+    max: 50,
+    suffix: '%',
+    planOverride: 'churnRate',
+    get: state => state.churnRate,
+    set: (state, value) => ({ ...state, churnRate: value })
+  },
+  {
+    id: 'cac',
+    label: 'CAC',
+    min: 0,
+    max: 500,
+    prefix: '$',
+    // The funnel works out its own CAC from spend
+    modes: ['volume', 'budget'],
+    planOverride: 'cac',
+    get: state => state.cac,
+    set: (state, value) => ({ ...state, cac: value })
+  },
+  {
+    id: 'expansionRevenue',
+    label: 'Monthly expansion',
+    min: 0,
+    max: 20,
+    suffix: '%',
+    planOverride: 'expansionRate',
+    get: state => state.expansionRevenue,
+    set: (state, value) => ({ ...state, expansionRevenue: value })
+  }
+];
+
+// Plans whose own value replaces the input, so changing it does not reach them
+export const plansOverriding = (state: CalculatorState, input: GoalInput): Plan[] =>
+  input.planOverride ? state.plans.filter(plan => plan[input.planOverride!] !== undefined) : [];
+
+// The inputs that drive the state's current acquisition mode and reach at
+// least one plan
+export const goalInputsFor = (state: CalculatorState): GoalInput[] =>
+  GOAL_INPUTS.filter(input =>
+    (!input.modes || input.modes.includes(state.acquisition.mode)) &&
+    (state.plans.length === 0 || plansOverriding(state, input).length < state.plans.length)
+  );
+
+export const readTarget = (scenario: Scenario, target: GoalTarget, deadlineMonth: number): number => {
+  const { projections, metrics } = calculateProjections(scenario);
+  if (target.source === 'metric') return metrics[target.key] as number;
+  const month = projections[Math.min(deadlineMonth, projections.length) - 1];
+  return month ? (month[target.key] as number) : 0;
+};
+
+// A solve as posted to the goal seek worker; the target and input are looked
+// up there, as functions cannot be posted
+export interface GoalSeekRequest {
+  scenario: Scenario;
+  targetIndex: number;
+  deadlineMonth: number;
+  inputId: string;
+  goal: number;
+}
+
+export type GoalSeekResult =
+  | { feasible: true; value: number; achieved: number }
+  // `best` is the bound that gets closest to the goal
+  | { feasible: false; best: number; achieved: number; reason: 'out-of-bounds' | 'no-effect' };
+
+const ITERATIONS = 40;
+
+// Finds the input value at which the target first reaches `goal`, assuming
+// the target moves monotonically with the input. Bisection between the
+// slider bounds; if both bounds fall short, the goal is infeasible.
+export const goalSeek = (
+  scenario: Scenario,
+  target: GoalTarget,
+  deadlineMonth: number,
+  input: GoalInput,
+  goal: number
+): GoalSeekResult => {
+  const evaluate = (value: number) => readTarget(input.set(scenario, value), target, deadlineMonth);
+  const atMin = evaluate(input.min);
+  const atMax = evaluate(input.max);
+
+  if (atMin === atMax) {
+    const current = Math.min(Math.max(input.get(scenario), input.min), input.max);
+    return atMin >= goal
+      ? { feasible: true, value: current, achieved: atMin }
+      : { feasible: false, best: current, achieved: atMin, reason: 'no-effect' };
+  }
+  // Orient the search so that `high` is the end that meets the goal
+  const increasing = atMax > atMin;
+  const [low, high] = increasing ? [input.min, input.max] : [input.max, input.min];
+  const best = increasing ? atMax : atMin;
+  if (best < goal) {
+    return { feasible: false, best: high, achieved: best, reason: 'out-of-bounds' };
+  }
+  if ((increasing ? atMin : atMax) >= goal) {
+    return { feasible: true, value: low, achieved: increasing ? atMin : atMax };
+  }
+
+  let from = low;
+  let to = high;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const mid = (from + to) / 2;
+    if (evaluate(mid) >= goal) to = mid;
+    else from = mid;
+  }
+  if (input.step) {
+    const snapped = (increasing ? Math.ceil : Math.floor)(to / input.step) * input.step;
+    to = Math.min(Math.max(snapped, input.min), input.max);
+  }
+  return { feasible: true, value: to, achieved: evaluate(to) };
+};
@@ -0,0 +1,11 @@
+import { GOAL_INPUTS, GOAL_TARGETS, goalSeek } from './goalSeek';
+import type { GoalSeekRequest } from './goalSeek';
+
+// Solves a goal seek off the main thread, as each solve projects the model
+// dozens of times. Results carry the request id so stale ones can be dropped.
+self.onmessage = (event: MessageEvent<{ id: number; request: GoalSeekRequest }>) => {
+  const { id, request } = event.data;
+  const input = GOAL_INPUTS.find(i => i.id === request.inputId)!;
+  const target = GOAL_TARGETS[request.targetIndex];
+  self.postMessage({ id, result: goalSeek(request.scenario, target, request.deadlineMonth, input, request.goal) });
+};
@@ -0,0 +1,121 @@
+import { weightedPlanPrice } from './projections';
+import type { BusinessMetrics, CalculatorState, MonthData } from './types';
+
+export interface Insight {
+  type: 'success' | 'warning' | 'danger' | 'info';
+  text: string;
+}
+
+// Plain-language reading of the projection, for the Insights card and the
+// PDF report
+export const buildInsights = (
+  metrics: BusinessMetrics,
+  finalMonth: MonthData | undefined,
+  projections: MonthData[],
+  state: CalculatorState
+): Insight[] => {
+  const insights: Insight[] = [];
+  const months = projections.length;
+
+  // LTV:CAC Ratio insights
+  if (metrics.ltvCacRatio >= 5) {
+    insights.push({ type: 'success', text: `Outstanding LTV:CAC ratio of ${metrics.ltvCacRatio}:1 indicates highly efficient customer acquisition. Consider increasing marketing spend to accelerate growth.` });
+  } else if (metrics.ltvCacRatio >= 3) {
+    insights.push({ type: 'success', text: `Healthy LTV:CAC ratio of ${metrics.ltvCacRatio}:1 shows sustainable unit economics. Continue current acquisition strategy.` });
+  } else if (metrics.ltvCacRatio >= 1) {
+    insights.push({ type: 'warning', text: `LTV:CAC ratio of ${metrics.ltvCacRatio}:1 is below the ideal 3:1 threshold. Focus on reducing churn or CAC to improve profitability.` });
+  } else {
+    insights.push({ type: 'danger', text: `Critical: LTV:CAC ratio of ${metrics.ltvCacRatio}:1 means you're losing money on each customer. Urgently review pricing and acquisition strategy.` });
+  }
+
+  // Payback period insights
+  if (metrics.paybackPeriod <= 6) {
+    insights.push({ type: 'success', text: `Exceptional ${metrics.paybackPeriod}-month payback period allows for rapid reinvestment in growth.` });
+  } else if (metrics.paybackPeriod <= 12) {
+    insights.push({ type: 'success', text: `Good ${metrics.paybackPeriod}-month payback period keeps cash flow healthy.` });
+  } else if (metrics.paybackPeriod <= 18) {
+    insights.push({ type: 'warning', text: `${metrics.paybackPeriod}-month payback period is manageable but consider optimizing CAC or increasing ARPU.` });
+  } else {
+    insights.push({ type: 'danger', text: `Long ${metrics.paybackPeriod}-month payback period may strain cash flow. Prioritize reducing CAC.` });
+  }
+
+  // NRR insights
+  if (metrics.nrr >= 120) {
+    insights.push({ type: 'success', text: `Outstanding ${metrics.nrr}% NRR shows strong expansion revenue. Your existing customers are growing significantly.` });
+  } else if (metrics.nrr >= 100) {
+    insights.push({ type: 'success', text: `Positive ${metrics.nrr}% NRR means expansion revenue exceeds churn - a key indicator of product-market fit.` });
+  } else if (metrics.nrr >= 90) {
+    insights.push({ type: 'warning', text: `${metrics.nrr}% NRR indicates slight contraction. Focus on upselling and cross-selling to existing customers.` });
+  } else {
+    insights.push({ type: 'danger', text: `${metrics.nrr}% NRR shows significant revenue loss from existing customers. Address churn immediately.` });
+  }
+
+  // Rule of 40 insights
+  if (metrics.ruleOf40 === null) {
+    insights.push({ type: 'info', text: `Rule of 40 needs a year of growth to measure. Extend the horizon past 12 months to see it.` });
+  } else if (metrics.ruleOf40 >= 40) {
+    insights.push({ type: 'success', text: `Rule of 40 score of ${metrics.ruleOf40}% indicates excellent balance between growth and profitability - attractive to investors.` });
+  } else {
+    insights.push({ type: 'info', text: `Rule of 40 score of ${metrics.ruleOf40}% suggests optimizing either growth rate or profit margins to reach the 40% threshold.` });
+  }
+
+  // Quick Ratio insights
+  if (metrics.quickRatio === null) {
+    insights.push({ type: 'success', text: `No MRR is lost to churn or contraction over the last year, so every new dollar adds to growth.` });
+  } else if (metrics.quickRatio >= 4) {
+    insights.push({ type: 'success', text: `Quick Ratio of ${metrics.quickRatio}: each dollar of MRR lost over the last year is replaced ${metrics.quickRatio} times over by new and expansion MRR.` });
+  } else if (metrics.quickRatio >= 1) {
+    insights.push({ type: 'warning', text: `Quick Ratio of ${metrics.quickRatio} is below the 4 that marks efficient growth. Churn and downgrades are eating much of the new MRR; see the MRR bridge for where it goes.` });
+  } else {
+    insights.push({ type: 'danger', text: `Quick Ratio of ${metrics.quickRatio} means more MRR is lost than gained over the last year. Churn and contraction outpace new business.` });
+  }
+
+  // Break-even insights
+  if (metrics.breakEvenMonth > 0 && metrics.breakEvenMonth <= 24) {
+    insights.push({ type: 'success', text: `Reaching break-even at month ${metrics.breakEvenMonth} demonstrates a path to profitability within 2 years.` });
+  } else if (metrics.breakEvenMonth > 24) {
+    insights.push({ type: 'info', text: `Break-even projected at month ${metrics.breakEvenMonth}. Consider strategies to accelerate profitability.` });
+  } else if (metrics.breakEvenMonth === -1) {
+    insights.push({ type: 'warning', text: `No break-even point reached in ${months} months. Review cost structure and pricing strategy.` });
+  }
+
+  // Runway insights
+  if (metrics.zeroCashMonth > 0) {
+    const lowestCash = projections.reduce((min, m) => Math.min(min, m.cashBalance), 0);
+    insights.push({ type: 'danger', text: `Cash runs out in month ${metrics.zeroCashMonth} and bottoms out at -$${Math.abs(lowestCash).toLocaleString()}. Raise at least that much, or cut costs, before then.` });
+  }
+
+  // Cost-to-serve insights
+  const pricePerUser = state.plans.length > 0 ? weightedPlanPrice(state.plans) ?? 0 : state.avgMonthlyRevenue;
+  const costToServe = state.supportCostPerUser + state.infrastructureCostPerUser + state.thirdPartyCostPerUser
+    + pricePerUser * (state.paymentProcessingRate / 100);
+  if (pricePerUser > 0) {
+    const costShare = (costToServe / pricePerUser) * 100;
+    const costText = `Support, infrastructure, third-party fees and payment processing cost $${costToServe.toFixed(2)} per customer per month, ${costShare.toFixed(1)}% of the $${pricePerUser.toFixed(2)} average payment (${metrics.grossMargin}% gross margin).`;
+    if (costShare <= 15) {
+      insights.push({ type: 'success', text: `${costText} Lean cost-to-serve leaves plenty of margin per customer.` });
+    } else if (costShare <= 30) {
+      insights.push({ type: 'warning', text: `${costText} Look for automation or hosting savings to protect margins.` });
+    } else {
+      insights.push({ type: 'danger', text: `${costText} Serving customers is eating most of their payment; revisit pricing or per-user costs.` });
+    }
+  }
+
+  // Expansion insights
+  if (state.expansionRevenue > 0) {
+    insights.push({ type: 'info', text: `Assuming ${state.expansionRevenue}% monthly expansion from upgrades and add-ons${finalMonth ? `, contributing $${finalMonth.expansionRevenue.toLocaleString()} to the final month's MRR` : ''}. Validate this against real upgrade rates.` });
+  } else {
+    insights.push({ type: 'info', text: `No expansion revenue is modelled. Upsells, seat growth or add-ons would lift NRR above the current ${metrics.nrr}%.` });
+  }
+
+  // Customer insights
+  if (finalMonth) {
+    const totalChurned = projections.reduce((sum, m) => sum + m.churnedCustomers, 0);
+    const churnImpact = finalMonth.cumulativeCustomers > 0
+      ? ((totalChurned / finalMonth.cumulativeCustomers) * 100).toFixed(1)
+      : '0.0';
+    insights.push({ type: 'info', text: `Total customer churn over ${months} months: ${totalChurned.toLocaleString()} customers (${churnImpact}% of acquired). Reducing churn by 1% could add $${((finalMonth.mrr * 0.01 * months) / 1000).toFixed(0)}k in revenue.` });
+  }
+
+  return insights;
+};
@@ -0,0 +1,173 @@
+import { formatCurrency } from './format';
+import {
+  blendedUnitEconomics,
+  trailingGrowthRate,
+  trailingProfitMargin,
+  trailingQuickRatio,
+  trailingRetention
+} from './projections';
+import type { ProjectionResult, Scenario } from './types';
+
+// How a summary metric was worked out: its formula and the figures that went
+// into it, for the methodology panel
+export interface MetricExplanation {
+  id: string;
+  label: string;
+  value: string;
+  formula: string;
+  inputs: { label: string; value: string }[];
+  note?: string;
+}
+
+const percent = (value: number) => `${Math.round(value * 10) / 10}%`;
+const months = (value: number) => `${Math.round(value * 10) / 10} mo`;
+// Per-customer figures are small enough that cents matter
+const cents = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const explainMetrics = (
+  { projections, metrics, cohorts }: ProjectionResult,
+  scenario: Scenario
+): MetricExplanation[] => {
+  const finalMonth = projections[projections.length - 1];
+  if (!finalMonth) return [];
+
+  const unit = blendedUnitEconomics(scenario);
+  const retention = trailingRetention(projections, cohorts);
+  const growth = trailingGrowthRate(projections);
+  const profit = trailingProfitMargin(projections);
+  const quick = trailingQuickRatio(projections);
+  const totalRevenue = projections.reduce((sum, d) => sum + d.recognizedRevenue, 0);
+  const totalCostOfRevenue = projections.reduce((sum, d) => sum + d.costOfRevenue, 0);
+  const span = `months ${retention.baseMonth}–${finalMonth.month}`;
+  const shortWindow = retention.window < 12
+    ? `The horizon is shorter than a year, so this covers ${retention.window} months and is not annualised.`
+    : undefined;
+
+  return [
+    {
+      id: 'clv',
+      label: 'Customer LTV',
+      value: formatCurrency(metrics.clv),
+      formula: 'Monthly gross profit per customer × expected lifetime (months), blended across plans',
+      inputs: [
+        { label: 'Blended price', value: cents(unit.price) },
+        { label: 'Gross profit per customer / month', value: cents(unit.margin) }
+      ],
+      note: 'A plan that never churns is credited with 12 months of gross profit. Prepaid customers can only cancel at renewal, so every month of each term they start counts.'
+    },
+    {
+      id: 'arr',
+      label: 'ARR',
+      value: formatCurrency(metrics.arr),
+      formula: 'Final-month MRR × 12',
+      inputs: [{ label: `Month ${finalMonth.month} MRR`, value: formatCurrency(finalMonth.mrr) }]
+    },
+    {
+      id: 'valuation',
+      label: 'Valuation',
+      value: formatCurrency(metrics.valuation),
+      formula: 'Median of the ARR multiple, DCF and revenue multiple base cases',
+      inputs: metrics.valuationRange.methods.map(method => ({ label: method.label, value: formatCurrency(method.base) }))
+    },
+    {
+      id: 'payback',
+      label: 'CAC Payback',
+      value: months(metrics.paybackPeriod),
+      formula: 'Blended CAC ÷ monthly gross profit per customer',
+      inputs: [
+        { label: 'Blended CAC', value: formatCurrency(unit.cac) },
+        { label: 'Gross profit per customer / month', value: cents(unit.margin) }
+      ]
+    },
+    {
+      id: 'grossMargin',
+      label: 'Gross Margin',
+      value: percent(metrics.grossMargin),
+      formula: '(Revenue − cost of revenue) ÷ revenue, over the whole projection',
+      inputs: [
+        { label: 'Revenue', value: formatCurrency(totalRevenue) },
+        { label: 'Cost of revenue', value: formatCurrency(totalCostOfRevenue) }
+      ]
+    },
+    {
+      id: 'ltvCac',
+      label: 'LTV:CAC',
+      value: `${metrics.ltvCacRatio}:1`,
+      formula: 'Customer LTV ÷ blended CAC',
+      inputs: [
+        { label: 'Customer LTV', value: formatCurrency(metrics.clv) },
+        { label: 'Blended CAC', value: formatCurrency(unit.cac) }
+      ],
+      ...(scenario.acquisition.mode === 'funnel' && {
+        note: 'CAC comes from the funnel: spend per visitor ÷ the share of visitors who end up paying.'
+      })
+    },
+    {
+      id: 'nrr',
+      label: 'NRR',
+      value: percent(metrics.nrr),
+      formula: `MRR today from customers active in month ${retention.baseMonth} ÷ their MRR in month ${retention.baseMonth}`,
+      inputs: [
+        { label: `Starting MRR (month ${retention.baseMonth})`, value: formatCurrency(retention.startingMrr) },
+        { label: `Their MRR in month ${finalMonth.month}`, value: formatCurrency(retention.endingMrr) },
+        { label: 'of which expansion', value: formatCurrency(retention.expansionMrr) }
+      ],
+      note: shortWindow ?? `Trailing twelve months (${span}); customers acquired since are left out.`
+    },
+    {
+      id: 'grr',
+      label: 'GRR',
+      value: percent(metrics.grr),
+      formula: 'As NRR, without expansion and never above 100% per cohort',
+      inputs: [
+        { label: `Starting MRR (month ${retention.baseMonth})`, value: formatCurrency(retention.startingMrr) },
+        { label: 'Retained MRR excluding expansion', value: formatCurrency(retention.grossMrr) }
+      ],
+      note: shortWindow ?? `Trailing twelve months (${span}).`
+    },
+    {
+      id: 'ruleOf40',
+      label: 'Rule of 40',
+      value: metrics.ruleOf40 === null ? 'n/a' : percent(metrics.ruleOf40),
+      formula: 'YoY MRR growth + trailing-year profit margin',
+      inputs: [
+        ...(growth
+          ? [
+            { label: `MRR growth since month ${growth.baseMonth}`, value: percent(growth.growth) },
+            { label: `Month ${growth.baseMonth} → ${finalMonth.month} MRR`, value: `${formatCurrency(growth.baseMrr)} → ${formatCurrency(growth.finalMrr)}` }
+          ]
+          : [{ label: 'MRR growth', value: projections.length > 12 ? 'n/a (no MRR to grow from)' : 'n/a (horizon of a year or less)' }]),
+        { label: `Profit margin (last ${profit.months} months)`, value: percent(profit.margin) },
+        { label: 'Net income ÷ revenue', value: `${formatCurrency(profit.netIncome)} ÷ ${formatCurrency(profit.revenue)}` }
+      ],
+      note: metrics.ruleOf40 === null
+        ? 'Growth over the first year only measures the launch ramp, so the score needs a horizon longer than 12 months.'
+        : growth && growth.baseMonth > retention.baseMonth
+          ? `No MRR before month ${growth.baseMonth}, so growth is measured from there.`
+          : shortWindow
+    },
+    {
+      id: 'quickRatio',
+      label: 'Quick Ratio',
+      value: metrics.quickRatio === null ? 'n/a' : `${metrics.quickRatio}`,
+      formula: '(New + reactivation + expansion MRR) ÷ (churned + contraction MRR), trailing year',
+      inputs: [
+        { label: `MRR gained (last ${quick.months} months)`, value: formatCurrency(quick.movements.newMrr + quick.movements.reactivationMrr + quick.movements.expansionMrr) },
+        { label: `MRR lost (last ${quick.months} months)`, value: formatCurrency(quick.movements.churnedMrr + quick.movements.contractionMrr) }
+      ],
+      note: metrics.quickRatio === null ? 'No MRR was lost, so there is nothing to divide by.' : 'Above 4 is efficient growth; below 1 MRR is shrinking.'
+    },
+    {
+      id: 'arpu',
+      label: 'Average ARPU',
+      value: cents(metrics.averageArpu),
+      formula: 'Final-month MRR ÷ active customers',
+      inputs: [
+        { label: `Month ${finalMonth.month} MRR`, value: formatCurrency(finalMonth.mrr) },
+        { label: 'Active customers', value: finalMonth.activeCustomers.toLocaleString() }
+      ],
+      note: 'Reflects the plan mix after churn and plan moves, plus expansion.'
+    }
+  ];
+};
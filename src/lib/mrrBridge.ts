@@ -0,0 +1,48 @@
+import type { MonthData } from './types';
+
+export type MrrMovementKey = 'newMrr' | 'reactivationMrr' | 'expansionMrr' | 'contractionMrr' | 'churnedMrr';
+
+// In waterfall order: what adds MRR, then what takes it away
+export const MRR_MOVEMENTS: { key: MrrMovementKey; label: string; sign: 1 | -1; color: string }[] = [
+  { key: 'newMrr', label: 'New', sign: 1, color: '#10b981' },
+  { key: 'reactivationMrr', label: 'Reactivation', sign: 1, color: '#06b6d4' },
+  { key: 'expansionMrr', label: 'Expansion', sign: 1, color: '#3b82f6' },
+  { key: 'contractionMrr', label: 'Contraction', sign: -1, color: '#f59e0b' },
+  { key: 'churnedMrr', label: 'Churned', sign: -1, color: '#ef4444' }
+];
+
+export type MrrMovements = Record<MrrMovementKey, number>;
+
+export interface MrrBridge {
+  openingMrr: number;
+  movements: MrrMovements;
+  closingMrr: number;
+}
+
+const netMovement = (movements: MrrMovements) =>
+  MRR_MOVEMENTS.reduce((sum, movement) => sum + movement.sign * movements[movement.key], 0);
+
+// MRR movements summed over months `firstMonth`..`lastMonth`, from the MRR
+// going into the first of them to the MRR at the end of the last. Before
+// month 1 the opening MRR is worked back from month 1's movements.
+export const mrrBridge = (projections: MonthData[], firstMonth: number, lastMonth: number): MrrBridge => {
+  const months = projections.filter(d => d.month >= firstMonth && d.month <= lastMonth);
+  const movements = Object.fromEntries(MRR_MOVEMENTS.map(({ key }) => [
+    key,
+    months.reduce((sum, d) => sum + d[key], 0)
+  ])) as MrrMovements;
+  const first = months[0];
+  const previous = projections.find(d => d.month === firstMonth - 1);
+  const closingMrr = months[months.length - 1]?.mrr ?? 0;
+  const openingMrr = previous?.mrr ?? (first ? Math.max(first.mrr - netMovement(first), 0) : 0);
+  return { openingMrr, movements, closingMrr };
+};
+
+// SaaS Quick Ratio: MRR gained from new customers and expansion for every
+// dollar lost to churn and contraction; null when nothing is lost. Returning
+// customers count as new.
+export const quickRatio = (movements: MrrMovements): number | null => {
+  const lost = movements.churnedMrr + movements.contractionMrr;
+  const gained = movements.newMrr + movements.reactivationMrr + movements.expansionMrr;
+  return lost > 0 ? gained / lost : null;
+};
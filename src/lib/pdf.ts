@@ -0,0 +1,239 @@
+// A small PDF writer for the report: pages are lists of drawing operations
+// in points, measured from the top-left corner, rendered with the two
+// standard Helvetica faces (no font embedding) and JPEG images. The output
+// depends only on the pages, with no timestamps or random IDs, so the same
+// input always gives byte-identical files.
+
+// A4 portrait
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfFont = 'regular' | 'bold';
+
+// Baseline JPEG bytes and their pixel size
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Colours are "#rrggbb"
+export type PdfOp =
+  | {
+    type: 'text';
+    x: number;
+    // Baseline
+    y: number;
+    text: string;
+    size: number;
+    font?: PdfFont;
+    color?: string;
+    align?: 'left' | 'center' | 'right';
+  }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; lineWidth?: number }
+  | { type: 'line'; points: [number, number][]; color: string; width?: number; dash?: number[] }
+  | { type: 'image'; x: number; y: number; width: number; height: number; image: PdfImage };
+
+export type PdfPage = PdfOp[];
+
+// Helvetica and Helvetica-Bold advance widths (per 1000 em) for " " to "~"
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+// Wider-than-average characters outside ASCII; the rest count as 556
+const EXTENDED_WIDTHS: Record<number, number> = { 0x85: 1000, 0x95: 350, 0x97: 1000 };
+
+// Windows-1252 bytes for the characters that differ from Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+// Stand-ins for symbols the standard fonts lack
+const SUBSTITUTES: Record<string, string> = { '−': '-', '→': '->', '←': '<-', '↓': 'v', '≈': '~', '≥': '>=', '≤': '<=' };
+
+// The text as single-byte WinAnsi codes. Emoji and anything else the
+// standard fonts cannot show are dropped.
+const encode = (text: string): number[] => {
+  const codes: number[] = [];
+  for (const char of text) {
+    for (const c of SUBSTITUTES[char] ?? char) {
+      const code = c.codePointAt(0)!;
+      if (code >= 0x20 && code < 0x7f) codes.push(code);
+      else if (WIN_ANSI[c] !== undefined) codes.push(WIN_ANSI[c]);
+      else if (code >= 0xa0 && code <= 0xff) codes.push(code);
+    }
+  }
+  return codes;
+};
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular'): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encode(text).reduce(
+    (sum, code) => sum + (code < 0x7f ? widths[code - 0x20] : EXTENDED_WIDTHS[code] ?? 556),
+    0
+  );
+  return (units * size) / 1000;
+};
+
+// Greedy word wrap to `maxWidth`; a word longer than the line gets a line
+// of its own
+export const wrapText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, font) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Cuts text down to `maxWidth`, ending in an ellipsis when shortened
+export const fitText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string => {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size, font) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+};
+
+const num = (value: number) => {
+  const fixed = value.toFixed(2);
+  return fixed.replace(/\.?0+$/, '') || '0';
+};
+
+const rgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => num(c / 255)).join(' ');
+};
+
+// PDF literal string: delimiters escaped, non-ASCII bytes as octal escapes
+const pdfString = (text: string) =>
+  `(${encode(text).map(code => {
+    const char = String.fromCharCode(code);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    return code < 0x7f ? char : `\\${code.toString(8).padStart(3, '0')}`;
+  }).join('')})`;
+
+const contentFor = (page: PdfPage, imageName: (image: PdfImage) => string): string =>
+  page.map(op => {
+    switch (op.type) {
+      case 'text': {
+        const font = op.font ?? 'regular';
+        const width = textWidth(op.text, op.size, font);
+        const x = op.align === 'right' ? op.x - width : op.align === 'center' ? op.x - width / 2 : op.x;
+        return `BT /${font === 'bold' ? 'F2' : 'F1'} ${num(op.size)} Tf ${rgb(op.color ?? '#000000')} rg `
+          + `${num(x)} ${num(PAGE_HEIGHT - op.y)} Td ${pdfString(op.text)} Tj ET`;
+      }
+      case 'rect': {
+        const paint = op.fill && op.stroke ? 'B' : op.fill ? 'f' : 'S';
+        return [
+          'q',
+          op.fill ? `${rgb(op.fill)} rg` : '',
+          op.stroke ? `${rgb(op.stroke)} RG ${num(op.lineWidth ?? 1)} w` : '',
+          `${num(op.x)} ${num(PAGE_HEIGHT - op.y - op.height)} ${num(op.width)} ${num(op.height)} re ${paint}`,
+          'Q'
+        ].filter(Boolean).join(' ');
+      }
+      case 'line': {
+        if (op.points.length < 2) return '';
+        const path = op.points
+          .map(([x, y], index) => `${num(x)} ${num(PAGE_HEIGHT - y)} ${index === 0 ? 'm' : 'l'}`)
+          .join(' ');
+        return `q ${rgb(op.color)} RG ${num(op.width ?? 1)} w 1 j [${(op.dash ?? []).map(num).join(' ')}] 0 d ${path} S Q`;
+      }
+      case 'image':
+        return `q ${num(op.width)} 0 0 ${num(op.height)} ${num(op.x)} ${num(PAGE_HEIGHT - op.y - op.height)} cm /${imageName(op.image)} Do Q`;
+    }
+  }).filter(Boolean).join('\n');
+
+const bytesOf = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+export const renderPdf = (pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> => {
+  const images: PdfImage[] = [];
+  const imageName = (image: PdfImage) => {
+    if (!images.includes(image)) images.push(image);
+    return `Im${images.indexOf(image) + 1}`;
+  };
+  const contents = pages.map(page => contentFor(page, imageName));
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images, then a
+  // page and its content stream for each page
+  const firstImage = 6;
+  const firstPage = firstImage + images.length;
+  const pageRef = (index: number) => `${firstPage + index * 2} 0 R`;
+  const xObjects = images.map((_, index) => `/Im${index + 1} ${firstImage + index} 0 R`).join(' ');
+
+  const objects: (string | { dictionary: string; stream: Uint8Array })[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => pageRef(index)).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${pdfString(title)} /Producer (SaaS Income Calculator) >>`,
+    ...images.map(image => ({
+      dictionary: `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} `
+        + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      stream: image.data
+    })),
+    ...contents.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> `
+        + `/Contents ${firstPage + index * 2 + 1} 0 R >>`,
+      { dictionary: `<< /Length ${content.length} >>`, stream: bytesOf(content) }
+    ])
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? bytesOf(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets = objects.map((object, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    if (typeof object === 'string') {
+      write(`${object}\n`);
+    } else {
+      write(`${object.dictionary}\nstream\n`);
+      write(object.stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+    return offset;
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { rollUpPeriods } from './periods';
+import { calculateProjections } from './projections';
+import { DEFAULT_STATE } from './state';
+
+const { projections } = calculateProjections({ ...DEFAULT_STATE, months: 24, startDate: '2025-01-01' });
+const sum = (from: number, to: number, field: 'newCustomers' | 'netIncome') =>
+  projections.slice(from - 1, to).reduce((total, d) => total + d[field], 0);
+
+describe('rollUpPeriods', () => {
+  it('sums flows and takes stocks at the end of each quarter', () => {
+    const quarters = rollUpPeriods(projections, 'quarter', 1);
+    expect(quarters.map(q => q.label).slice(0, 5)).toEqual(['Q1 2025', 'Q2 2025', 'Q3 2025', 'Q4 2025', 'Q1 2026']);
+    expect(quarters[1]).toMatchObject({
+      firstMonth: 4,
+      month: 6,
+      newCustomers: sum(4, 6, 'newCustomers'),
+      netIncome: sum(4, 6, 'netIncome'),
+      activeCustomers: projections[5].activeCustomers,
+      mrr: projections[5].mrr,
+      profit: projections[5].profit
+    });
+  });
+
+  it('names fiscal years after the year they end in and leaves partial ends', () => {
+    const years = rollUpPeriods(projections, 'year', 4);
+    expect(years.map(y => [y.label, y.firstMonth, y.month])).toEqual([
+      ['FY2025', 1, 3],
+      ['FY2026', 4, 15],
+      ['FY2027', 16, 24]
+    ]);
+    expect(years[1].newCustomers).toBe(sum(4, 15, 'newCustomers'));
+    expect(years[2].cashBalance).toBe(projections[23].cashBalance);
+  });
+});
@@ -0,0 +1,90 @@
+import type { MonthData } from './types';
+
+export type PeriodType = 'month' | 'quarter' | 'year';
+
+export const PERIOD_TYPES: { type: PeriodType; label: string }[] = [
+  { type: 'month', label: 'Monthly' },
+  { type: 'quarter', label: 'Quarterly' },
+  { type: 'year', label: 'Annual' }
+];
+
+// A projection row standing for a whole period. `month` and `date` are the
+// period's last month; `label` names the period ("Q2 FY2027", "FY2027").
+export interface PeriodData extends MonthData {
+  label: string;
+  firstMonth: number;
+}
+
+// Summed over a period; every other figure (MRR, customers, cumulative
+// totals, balances) is a stock and takes the period-end value
+const FLOW_FIELDS = [
+  'newCustomers',
+  'churnedCustomers',
+  'expansionRevenue',
+  'newMrr',
+  'reactivationMrr',
+  'expansionMrr',
+  'contractionMrr',
+  'churnedMrr',
+  'costOfRevenue',
+  'acquisitionCost',
+  'fixedCosts',
+  'payroll',
+  'freeUserCost',
+  'operatingCosts',
+  'netIncome',
+  'recognizedRevenue',
+  'cashCollected',
+  'funding'
+] as const;
+
+// Fiscal year and quarter a "YYYY-MM" month falls in, for a fiscal year that
+// starts in calendar month `fiscalYearStart` (1-12). Fiscal years are named
+// after the calendar year they end in.
+const fiscalPeriod = (date: string, fiscalYearStart: number) => {
+  const [year, month] = date.split('-').map(Number);
+  const monthOfYear = (month - fiscalYearStart + 12) % 12;
+  const fiscalYear = fiscalYearStart > 1 && month >= fiscalYearStart ? year + 1 : year;
+  return { fiscalYear, quarter: Math.floor(monthOfYear / 3) + 1 };
+};
+
+const periodLabel = (date: string, period: Exclude<PeriodType, 'month'>, fiscalYearStart: number): string => {
+  const { fiscalYear, quarter } = fiscalPeriod(date, fiscalYearStart);
+  const year = fiscalYearStart > 1 ? `FY${fiscalYear}` : String(fiscalYear);
+  return period === 'quarter' ? `Q${quarter} ${year}` : year;
+};
+
+const marginOf = (revenue: number, costs: number) =>
+  revenue > 0 ? Math.round(((revenue - costs) / revenue) * 1000) / 10 : 0;
+
+// Rolls monthly rows up into quarters or fiscal years. The first and last
+// periods may be partial when the horizon does not line up with them.
+export const rollUpPeriods = (
+  projections: MonthData[],
+  period: PeriodType,
+  fiscalYearStart: number
+): PeriodData[] => {
+  if (period === 'month') return projections.map(month => ({ ...month, label: month.date, firstMonth: month.month }));
+  const periods: PeriodData[] = [];
+  projections.forEach(month => {
+    const label = periodLabel(month.date, period, fiscalYearStart);
+    const current = periods[periods.length - 1];
+    if (!current || current.label !== label) {
+      periods.push({ ...month, label, firstMonth: month.month });
+      return;
+    }
+    const flows = Object.fromEntries(FLOW_FIELDS.map(field => [field, current[field] + month[field]]));
+    Object.assign(current, month, flows, { label, firstMonth: current.firstMonth });
+  });
+  periods.forEach(row => {
+    row.grossMargin = marginOf(row.recognizedRevenue, row.costOfRevenue);
+    row.contributionMargin = marginOf(row.recognizedRevenue, row.costOfRevenue + row.acquisitionCost);
+  });
+  return periods;
+};
+
+// X axis key and title, and the tooltip heading, for charts of periods
+export const periodAxis = (period: PeriodType) =>
+  period === 'month'
+    ? { dataKey: 'month', title: 'Month', heading: (value: unknown) => `Month ${value}` }
+    : { dataKey: 'label', title: period === 'quarter' ? 'Quarter' : 'Fiscal year', heading: (value: unknown) => String(value) };
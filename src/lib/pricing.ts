@@ -0,0 +1,42 @@
+import type { Plan, PriceChange, PriceMigration } from './types';
+
+export const PRICE_MIGRATIONS: { migration: PriceMigration; label: string }[] = [
+  { migration: 'grandfather', label: 'Grandfather' },
+  { migration: 'immediate', label: 'Migrate now' },
+  { migration: 'delayed', label: 'Migrate later' }
+];
+
+// A plan's scheduled price changes in the order they take effect, leaving out
+// any set before the model starts
+export const scheduledPriceChanges = (plan: Plan): PriceChange[] =>
+  (plan.priceChanges ?? []).filter(change => change.month >= 1).sort((a, b) => a.month - b.month);
+
+// Month existing customers move to a change's price, or null when they keep
+// the price they have
+export const migrationMonth = (change: PriceChange): number | null => {
+  switch (change.migration) {
+    case 'immediate':
+      return change.month;
+    case 'delayed':
+      return change.month + Math.max(Math.round(change.delayMonths), 0);
+    default:
+      return null;
+  }
+};
+
+export const describePriceChange = (change: PriceChange): string => {
+  const moved = migrationMonth(change);
+  const existing = moved === null
+    ? 'existing customers grandfathered'
+    : `existing customers move in month ${moved}${change.churnSpike > 0 ? `, ${change.churnSpike}% cancel` : ''}`;
+  return `$${change.price} from month ${change.month} (${existing})`;
+};
+
+// A plan with its price and every scheduled price scaled together
+export const scalePlanPrice = (plan: Plan, multiplier: number): Plan => ({
+  ...plan,
+  price: plan.price * multiplier,
+  ...(plan.priceChanges && {
+    priceChanges: plan.priceChanges.map(change => ({ ...change, price: change.price * multiplier }))
+  })
+});
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProjections } from './projections';
+import { DEFAULT_STATE } from './state';
+import type { CalculatorState, MonthData, Scenario } from './types';
+
+const scenarioWith = (overrides: Partial<CalculatorState> = {}): Scenario => ({
+  ...DEFAULT_STATE,
+  ...overrides,
+  months: 24,
+  startDate: '2025-01-01'
+});
+
+// One field over the first six months
+const series = (projections: MonthData[], field: keyof MonthData) =>
+  projections.slice(0, 6).map(d => d[field]);
+
+// The default inputs: 200 customers a month (the $10,000 target at $50),
+// 20% churn in a customer's first month and 10% after, 5% expansion on last
+// month's MRR, $5 per user, 3% processing and $100 CAC
+describe('default scenario', () => {
+  const { projections, metrics } = calculateProjections(scenarioWith());
+
+  it('churns each cohort along the cliff curve', () => {
+    expect(series(projections, 'newCustomers')).toEqual([200, 200, 200, 200, 200, 200]);
+    expect(series(projections, 'churnedCustomers')).toEqual([40, 56, 70, 83, 95, 106]);
+    expect(series(projections, 'activeCustomers')).toEqual([160, 304, 434, 550, 655, 750]);
+  });
+
+  it('earns expansion on the previous month\'s MRR', () => {
+    expect(series(projections, 'expansionRevenue')).toEqual([0, 400, 780, 1123, 1432, 1710]);
+    expect(series(projections, 'mrr')).toEqual([8000, 15600, 22460, 28635, 34193, 39194]);
+  });
+
+  it('charges per-user costs, processing and acquisition', () => {
+    expect(series(projections, 'costOfRevenue')).toEqual([1040, 1988, 2842, 3610, 4302, 4924]);
+    expect(series(projections, 'acquisitionCost')).toEqual([20000, 20000, 20000, 20000, 20000, 20000]);
+    expect(series(projections, 'operatingCosts')).toEqual([21040, 21988, 22842, 23610, 24302, 24924]);
+  });
+
+  it('breaks even in the first month with cumulative profit', () => {
+    expect(series(projections, 'profit')).toEqual([-13040, -19428, -19810, -14785, -4894, 9376]);
+    expect(metrics.breakEvenMonth).toBe(6);
+  });
+});
+
+describe('zero churn', () => {
+  const { projections, metrics } = calculateProjections(scenarioWith({
+    churnRate: 0,
+    retentionCurve: { type: 'exponential' },
+    expansionRevenue: 0
+  }));
+
+  it('keeps every customer acquired', () => {
+    expect(series(projections, 'churnedCustomers')).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(series(projections, 'activeCustomers')).toEqual([200, 400, 600, 800, 1000, 1200]);
+    expect(series(projections, 'mrr')).toEqual([10000, 20000, 30000, 40000, 50000, 60000]);
+  });
+
+  it('breaks even once the base covers acquisition', () => {
+    // Each month nets $43.50 a customer against $20,000 of acquisition
+    expect(series(projections, 'operatingCosts')).toEqual([21300, 22600, 23900, 25200, 26500, 27800]);
+    expect(series(projections, 'profit')).toEqual([-11300, -13900, -7800, 7000, 30500, 62700]);
+    expect(metrics.breakEvenMonth).toBe(4);
+  });
+});
+
+describe('high churn', () => {
+  const { projections, metrics } = calculateProjections(scenarioWith({
+    churnRate: 50,
+    retentionCurve: { type: 'exponential' }
+  }));
+
+  it('settles where churn matches acquisition', () => {
+    expect(series(projections, 'activeCustomers')).toEqual([100, 150, 175, 188, 194, 197]);
+    expect(series(projections, 'churnedCustomers')).toEqual([100, 150, 175, 188, 194, 197]);
+    expect(series(projections, 'expansionRevenue')).toEqual([0, 250, 388, 457, 492, 509]);
+    expect(series(projections, 'mrr')).toEqual([5000, 7750, 9138, 9832, 10179, 10353]);
+  });
+
+  it('never breaks even', () => {
+    expect(series(projections, 'profit')).toEqual([-15650, -28882, -40894, -52295, -63390, -74332]);
+    expect(projections.every(d => d.profit < 0)).toBe(true);
+    expect(metrics.breakEvenMonth).toBe(-1);
+  });
+});
+
+describe('no acquisition', () => {
+  const { projections, metrics } = calculateProjections(scenarioWith({
+    customersPerMonth: 0,
+    start: { ...DEFAULT_STATE.start, activeCustomers: 1000 }
+  }));
+
+  it('runs the starting base down at the steady churn rate', () => {
+    expect(series(projections, 'newCustomers')).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(series(projections, 'churnedCustomers')).toEqual([100, 90, 81, 73, 66, 59]);
+    expect(series(projections, 'activeCustomers')).toEqual([900, 810, 729, 656, 590, 531]);
+  });
+
+  it('earns expansion on the starting MRR', () => {
+    expect(series(projections, 'expansionRevenue')).toEqual([2500, 2375, 2144, 1930, 1737, 1563]);
+    expect(series(projections, 'mrr')).toEqual([47500, 42875, 38594, 34735, 31261, 28135]);
+  });
+
+  it('has no acquisition cost and is profitable from month 1', () => {
+    expect(series(projections, 'acquisitionCost')).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(series(projections, 'costOfRevenue')).toEqual([5925, 5336, 4803, 4323, 3890, 3501]);
+    expect(series(projections, 'profit')).toEqual([41575, 79114, 112905, 143317, 170688, 195322]);
+    expect(metrics.breakEvenMonth).toBe(1);
+  });
+});
+
+// Active customers are who is paying now; cumulative customers are everyone
+// ever acquired, so the two only match until the first churn
+describe('continuing from actual customer counts', () => {
+  const { projections } = calculateProjections(scenarioWith({
+    actuals: {
+      months: [
+        { date: '2025-01', activeCustomers: 400 },
+        { date: '2025-02', activeCustomers: 440 },
+        { date: '2025-03', activeCustomers: 480 }
+      ],
+      continueFromActuals: true
+    }
+  }));
+
+  it('replays each imported month\'s closing base', () => {
+    expect(projections.slice(0, 3).map(d => d.activeCustomers)).toEqual([400, 440, 480]);
+  });
+
+  it('makes up a base above the model with new customers', () => {
+    expect(series(projections, 'newCustomers').slice(0, 3)).toEqual([400, 200, 200]);
+    expect(series(projections, 'churnedCustomers').slice(0, 3)).toEqual([0, 160, 160]);
+  });
+});
+
+describe('customer counts', () => {
+  const scenarios: [string, Scenario][] = [
+    ['default', scenarioWith()],
+    ['plans with switching', scenarioWith({
+      plans: [
+        { id: 'starter', name: 'Starter', price: 29, probability: 70, movements: [{ toPlanId: 'pro', monthlyRate: 2 }] },
+        { id: 'pro', name: 'Pro', price: 99, probability: 30, churnRate: 4 }
+      ]
+    })],
+    ['starting base', scenarioWith({ start: { ...DEFAULT_STATE.start, activeCustomers: 500 } })]
+  ];
+
+  it.each(scenarios)('%s: active customers move by new less churned', (_, scenario) => {
+    const { projections } = calculateProjections(scenario);
+    projections.forEach((d, index) => {
+      const previous = index === 0 ? scenario.start.activeCustomers : projections[index - 1].activeCustomers;
+      // Each figure is rounded on its own, so they can disagree by one
+      expect(Math.abs(d.activeCustomers - (previous + d.newCustomers - d.churnedCustomers))).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it.each(scenarios)('%s: cumulative customers never decrease and stay above active after churn', (_, scenario) => {
+    const { projections } = calculateProjections(scenario);
+    let churned = 0;
+    projections.forEach((d, index) => {
+      if (index > 0) expect(d.cumulativeCustomers).toBeGreaterThanOrEqual(projections[index - 1].cumulativeCustomers);
+      churned += d.churnedCustomers;
+      if (churned > 0) expect(d.activeCustomers).toBeLessThan(d.cumulativeCustomers);
+    });
+    expect(churned).toBeGreaterThan(0);
+  });
+});
+
+// 100 customers on a $100 annual plan, acquired in month 1 only, at 10%
+// monthly churn
+describe('prepaid annual plan', () => {
+  const { projections, metrics } = calculateProjections(scenarioWith({
+    plans: [{ id: 'annual', name: 'Annual', price: 100, probability: 100, billingTermMonths: 12 }],
+    retentionCurve: { type: 'exponential' },
+    expansionRevenue: 0,
+    customersPerMonth: 100,
+    acquisition: { ...DEFAULT_STATE.acquisition, steps: [{ month: 2, value: 0 }] }
+  }));
+
+  it('collects the whole term up front without refunds', () => {
+    expect(projections[0].cashCollected).toBe(120000);
+    expect(projections.slice(1, 12).every(d => d.cashCollected === 0)).toBe(true);
+  });
+
+  it('keeps every customer until renewal', () => {
+    expect(projections.slice(0, 12).map(d => d.activeCustomers)).toEqual(new Array(12).fill(100));
+    expect(projections.slice(0, 12).map(d => d.recognizedRevenue)).toEqual(new Array(12).fill(10000));
+    expect(projections.slice(0, 12).every(d => d.churnedCustomers === 0)).toBe(true);
+  });
+
+  it('loses a year of compounded churn at renewal and bills the rest', () => {
+    const renewed = 100 * 0.9 ** 12;
+    expect(projections[12].churnedCustomers).toBe(Math.round(100 - renewed));
+    expect(projections[12].activeCustomers).toBe(Math.round(renewed));
+    expect(projections[12].cashCollected).toBe(Math.round(renewed * 1200));
+    expect(projections.slice(13, 24).every(d => d.activeCustomers === Math.round(renewed))).toBe(true);
+  });
+
+  it('values customers by the terms they pay for', () => {
+    // Each term starts with 0.9^12 of the last, 12 months paid per term
+    const lifetime = 12 / (1 - 0.9 ** 12);
+    const margin = 100 * 0.97 - 5;
+    expect(metrics.clv).toBe(Math.round(lifetime * margin));
+  });
+});
+
+describe('no business at all', () => {
+  it.each([
+    ['no acquisition', { customersPerMonth: 0 }],
+    ['no price', { avgMonthlyRevenue: 0 }]
+  ] as [string, Partial<CalculatorState>][])('%s never breaks even', (_, overrides) => {
+    const { projections, metrics } = calculateProjections(scenarioWith(overrides));
+    expect(projections.every(d => d.revenue === 0 && d.profit <= 0)).toBe(true);
+    expect(metrics.breakEvenMonth).toBe(-1);
+  });
+});
+
+describe('Rule of 40', () => {
+  it('is not scored on a horizon of a year or less', () => {
+    const { metrics } = calculateProjections({ ...scenarioWith(), months: 12 });
+    expect(metrics.ruleOf40).toBeNull();
+  });
+
+  it('adds a year of MRR growth to the trailing profit margin', () => {
+    const { projections, metrics } = calculateProjections(scenarioWith());
+    const growth = (projections[23].mrr / projections[11].mrr - 1) * 100;
+    const year = projections.slice(12);
+    const margin = (year.reduce((sum, d) => sum + d.netIncome, 0) / year.reduce((sum, d) => sum + d.recognizedRevenue, 0)) * 100;
+    expect(metrics.ruleOf40).toBe(Math.round((growth + margin) * 10) / 10);
+  });
+});
@@ -0,0 +1,758 @@
+import { funnelCac, newCustomerSchedule, projectFunnel } from './acquisition';
+import { alignActuals } from './actuals';
+import { fixedCostForMonth, hireTriggered } from './finance';
+import { mrrBridge, quickRatio } from './mrrBridge';
+import { migrationMonth, scheduledPriceChanges } from './pricing';
+import { churnHazard, expectedLifetimeMonths } from './retention';
+import { valueBusiness } from './valuation';
+import type {
+  ActualMonth,
+  BusinessMetrics,
+  CohortData,
+  MonthData,
+  Plan,
+  PlanMetrics,
+  PlanMovement,
+  ProjectionResult,
+  Scenario
+} from './types';
+
+export const DEFAULT_HORIZON = 60;
+export const HORIZON_OPTIONS = [12, 24, 36, 60, 120];
+
+// First day of the current month, used when a scenario has no explicit start.
+export const currentMonthStart = (now: Date = new Date()): string =>
+  new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().slice(0, 10);
+
+// "YYYY-MM" label for the month `offset` months after `startDate`
+export const monthLabel = (startDate: string, offset: number): string => {
+  const [year, month] = startDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+// Weighted average price of the plan mix, or null when no plan carries weight
+export const weightedPlanPrice = (plans: Plan[]): number | null => {
+  const totalProb = plans.reduce((sum, p) => sum + p.probability, 0);
+  if (plans.length === 0 || totalProb <= 0) return null;
+  return plans.reduce((sum, plan) => sum + plan.price * (plan.probability / totalProb), 0);
+};
+
+// One of the prices a plan is sold at, after any prepay discount. New
+// customers pay it from `month`; customers on earlier prices move to it in
+// `migrationMonth`, or never when that is null.
+export interface PricePoint {
+  month: number;
+  price: number;
+  migrationMonth: number | null;
+  churnSpike: number;
+}
+
+// A plan as the engine runs it: per-plan overrides resolved against the
+// scenario-wide inputs and the acquisition mix normalized to weights that
+// sum to 1. Without user-defined plans there is a single implicit plan at the
+// average payment.
+export interface ResolvedPlan {
+  id: string;
+  name: string;
+  // Monthly price at the start, after any prepay discount
+  price: number;
+  // The starting price followed by each scheduled change
+  pricePoints: PricePoint[];
+  billingTermMonths: number;
+  weight: number;
+  churnRate: number;
+  cac: number;
+  expansionRate: number;
+  movements: PlanMovement[];
+}
+
+export const IMPLICIT_PLAN_ID = 'all';
+
+export const resolvePlans = (scenario: Scenario): ResolvedPlan[] => {
+  const { plans, avgMonthlyRevenue, churnRate, expansionRevenue } = scenario;
+  // A funnel's spend per converted customer replaces the entered CAC
+  const funnelMode = scenario.acquisition.mode === 'funnel';
+  const cac = funnelMode ? funnelCac(scenario.acquisition.funnel) : scenario.cac;
+  if (plans.length === 0) {
+    return [{
+      id: IMPLICIT_PLAN_ID,
+      name: 'All customers',
+      price: avgMonthlyRevenue,
+      pricePoints: [{ month: 0, price: avgMonthlyRevenue, migrationMonth: null, churnSpike: 0 }],
+      billingTermMonths: 1,
+      weight: 1,
+      churnRate,
+      cac,
+      expansionRate: expansionRevenue,
+      movements: []
+    }];
+  }
+
+  // With no mix entered yet, new customers are split evenly
+  const totalProb = plans.reduce((sum, p) => sum + p.probability, 0);
+  const planIds = new Set(plans.map(p => p.id));
+  return plans.map(plan => {
+    const discounted = (price: number) => price * (1 - (plan.prepayDiscount ?? 0) / 100);
+    return {
+      id: plan.id,
+      name: plan.name || 'Unnamed plan',
+      price: discounted(plan.price),
+      pricePoints: [
+        { month: 0, price: discounted(plan.price), migrationMonth: null, churnSpike: 0 },
+        ...scheduledPriceChanges(plan).map(change => ({
+          month: change.month,
+          price: discounted(change.price),
+          migrationMonth: migrationMonth(change),
+          churnSpike: Math.min(Math.max(change.churnSpike, 0), 100)
+        }))
+      ],
+      billingTermMonths: Math.max(1, Math.round(plan.billingTermMonths ?? 1)),
+      weight: totalProb > 0 ? plan.probability / totalProb : 1 / plans.length,
+      churnRate: plan.churnRate ?? churnRate,
+      cac: funnelMode ? cac : plan.cac ?? cac,
+      expansionRate: plan.expansionRate ?? expansionRevenue,
+      movements: (plan.movements ?? []).filter(m => m.toPlanId !== plan.id && planIds.has(m.toPlanId))
+    };
+  });
+};
+
+// Index of the price a plan sells at in `month`
+export const pricePointAt = (plan: ResolvedPlan, month: number): number =>
+  plan.pricePoints.reduce((current, point, index) => point.month <= month ? index : current, 0);
+
+// Cost of revenue that scales with customers rather than revenue
+export const costPerUser = (scenario: Scenario): number =>
+  scenario.supportCostPerUser + scenario.infrastructureCostPerUser + scenario.thirdPartyCostPerUser;
+
+// What a customer paying `price` a month leaves after cost of revenue
+export const monthlyGrossProfit = (scenario: Scenario, price: number): number =>
+  price * (1 - scenario.paymentProcessingRate / 100) - costPerUser(scenario);
+
+// CAC averaged over the acquisition mix
+export const blendedPlanCac = (scenario: Scenario): number =>
+  resolvePlans(scenario).reduce((sum, plan) => sum + plan.weight * plan.cac, 0);
+
+interface CohortGroup {
+  month: number;
+  planId: string;
+  // Index into the plan's price points
+  pricePoint: number;
+  active: number;
+  // Customers who churned from this group and may still come back
+  lapsed: number;
+  // Cash prepaid by this group's customers that is not yet recognized
+  deferred: number;
+  // What the group pays relative to its plan's list price, moved off 1 when
+  // the projection is pinned to actual MRR
+  priceFactor: number;
+}
+
+// Customers on each plan when the model starts: the entered split, or the
+// total spread by the acquisition mix
+export const openingCustomers = (scenario: Scenario, plans: ResolvedPlan[]): Map<string, number> => {
+  const { activeCustomers, customersByPlan } = scenario.start;
+  return new Map(plans.map(plan => [
+    plan.id,
+    Math.max(customersByPlan && plan.id !== IMPLICIT_PLAN_ID ? customersByPlan[plan.id] ?? 0 : activeCustomers * plan.weight, 0)
+  ]));
+};
+
+// Months of the current billing term still unearned at the start of a
+// customer's `age`-th month, including that month
+const remainingTermMonths = (age: number, termMonths: number) => termMonths - ((age - 1) % termMonths);
+
+// Each month's new customers (from the acquisition schedule) form a cohort,
+// split across plans by the mix.
+// Every cohort churns along the scenario's retention curve by age, at its
+// plan's steady churn rate, and part of it may move to other plans each month.
+// Prepaid customers are committed for their term, so they only cancel at
+// renewal: the churn they would have had over the term just served, compounded.
+//
+// Pricing: customers pay the price their plan sold at when they joined (or
+// switched to it). A scheduled price change moves existing customers onto
+// the new price in its migration month, like a plan switch, less the share
+// who cancel instead.
+//
+// Win-backs: each month a share of every group's churned customers comes
+// back to it at its price, paying for the rest of its current term.
+//
+// The month's MRR movements add up to the change in MRR: new and returning
+// customers, churn (including price-change cancellations), price and plan
+// moves, repricing to actuals, and the change in expansion revenue, which
+// is earned on the previous month's MRR.
+// Cohort sizes are kept fractional (expected values) and only rounded when
+// reported.
+//
+// Billing: a plan's customers pay for a whole term at acquisition and at each
+// renewal; revenue is recognized evenly over the term from deferred revenue.
+// Customers who switch plans or cancel at a price change mid-term get the
+// unused part of their term refunded, and switchers pay the rest of their new
+// plan's term.
+//
+// Costs: per-user support and infrastructure, acquisition spend, fixed cost
+// line items, the payroll of every hire whose trigger has been met and, with
+// a funnel, the cost of serving its free users. The
+// cash balance moves with cash collected and funding, not recognized revenue.
+//
+// A starting base forms cohort 0. It is treated as past the early months of
+// the retention curve, so it churns at the steady rate. Its renewals are
+// spread evenly over the term, and it is priced to the starting MRR when one
+// is given.
+//
+// When continuing from actuals, imported months replace the modelled new
+// customers and churn, and every cohort is repriced so MRR matches; the
+// forecast runs on from the latest real month.
+export const projectMonths = (scenario: Scenario): { projections: MonthData[]; cohorts: CohortData[] } => {
+  const {
+    retentionCurve,
+    months,
+    startDate,
+    finance
+  } = scenario;
+  const data: MonthData[] = [];
+  const cohorts: CohortData[] = [];
+  const groups = new Map<string, CohortGroup>();
+
+  const plans = resolvePlans(scenario);
+  const plansById = new Map(plans.map(plan => [plan.id, plan]));
+  const cac = blendedPlanCac(scenario);
+  const newCustomersByMonth = newCustomerSchedule(scenario, cac);
+  const funnel = scenario.acquisition.mode === 'funnel' ? projectFunnel(scenario) : null;
+  const replay = scenario.actuals.continueFromActuals
+    ? alignActuals(scenario.actuals.months, startDate)
+    : new Map<number, ActualMonth>();
+
+  const groupFor = (month: number, planId: string, pricePoint: number): CohortGroup => {
+    const key = `${month}:${planId}:${pricePoint}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { month, planId, pricePoint, active: 0, lapsed: 0, deferred: 0, priceFactor: 1 };
+      groups.set(key, group);
+    }
+    return group;
+  };
+  const priceOf = (group: CohortGroup) =>
+    plansById.get(group.planId)!.pricePoints[group.pricePoint].price * group.priceFactor;
+  // Months into its current run of billing terms, and into its life for
+  // churn, that a group is in `month`
+  const ageOf = (group: CohortGroup, month: number) => month - Math.max(group.month, 1) + 1;
+  const churnAge = (group: CohortGroup, month: number) =>
+    group.month === 0 ? Number.POSITIVE_INFINITY : ageOf(group, month);
+  // Spreading the starting base's renewals evenly collects the same cash as
+  // billing it monthly
+  const termOf = (group: CohortGroup) => group.month === 0 ? 1 : plansById.get(group.planId)!.billingTermMonths;
+  // Share of a group's customers who leave in `month`: the month's hazard on
+  // monthly billing, and on longer terms the hazard compounded over the term
+  // just served, taken in its renewal month before anyone is billed again
+  const churnShare = (group: CohortGroup, month: number) => {
+    const { churnRate } = plansById.get(group.planId)!;
+    const term = termOf(group);
+    if (term === 1) return churnHazard(retentionCurve, churnRate, churnAge(group, month));
+    const age = ageOf(group, month);
+    if (age === 1 || (age - 1) % term !== 0) return 0;
+    let surviving = 1;
+    for (let served = age - term; served < age; served++) {
+      surviving *= 1 - churnHazard(retentionCurve, churnRate, served);
+    }
+    return 1 - surviving;
+  };
+
+  const previousPlanMrr = new Map<string, number>();
+  const opening = openingCustomers(scenario, plans);
+  const openingTotal = [...opening.values()].reduce((sum, count) => sum + count, 0);
+  if (openingTotal > 0) {
+    const listMrr = plans.reduce((sum, plan) => sum + (opening.get(plan.id) ?? 0) * plan.price, 0);
+    const priceFactor = scenario.start.mrr !== null && listMrr > 0 ? scenario.start.mrr / listMrr : 1;
+    plans.forEach(plan => {
+      const group = groupFor(0, plan.id, 0);
+      group.active = opening.get(plan.id) ?? 0;
+      group.priceFactor = priceFactor;
+      previousPlanMrr.set(plan.id, group.active * priceOf(group));
+    });
+    cohorts.push({
+      month: 0,
+      acquired: openingTotal,
+      retained: [openingTotal],
+      mrr: [listMrr * priceFactor],
+      expansionMrr: [0]
+    });
+  }
+
+  let previousExpansion = 0;
+  let cumulativeCustomers = openingTotal;
+  let cumulativeRevenue = 0;
+  let cumulativeNetRevenue = 0;
+  let cumulativeProfit = scenario.start.cumulativeProfit;
+  let cashBalance = finance.startingCash;
+  const hired = new Set<string>();
+
+  for (let month = 1; month <= months; month++) {
+    const actual = replay.get(month);
+    const thisCohort: CohortData = { month, acquired: 0, retained: [], mrr: [], expansionMrr: [] };
+    cohorts.push(thisCohort);
+    let newCustomers = 0;
+    let newMrr = 0;
+    let cashCollected = 0;
+    const bill = (group: CohortGroup, amount: number) => {
+      group.deferred += amount;
+      cashCollected += amount;
+    };
+    const acquire = (count: number) => {
+      newCustomers += count;
+      cumulativeCustomers += count;
+      thisCohort.acquired += count;
+      plans.forEach(plan => {
+        const group = groupFor(month, plan.id, pricePointAt(plan, month));
+        group.active += count * plan.weight;
+        newMrr += count * plan.weight * priceOf(group);
+      });
+    };
+    acquire(actual?.newCustomers ?? newCustomersByMonth[month - 1]);
+
+    for (const group of groups.values()) {
+      const age = ageOf(group, month);
+      if ((age - 1) % termOf(group) === 0) {
+        bill(group, group.active * priceOf(group) * termOf(group));
+      }
+    }
+
+    // Price and plan moves up and down
+    let expansionMrr = 0;
+    let contractionMrr = 0;
+    const moveMrr = (amount: number) => {
+      if (amount >= 0) expansionMrr += amount;
+      else contractionMrr -= amount;
+    };
+
+    let reactivationMrr = 0;
+    if (scenario.reactivationRate > 0) {
+      for (const group of groups.values()) {
+        const returning = group.lapsed * Math.min(scenario.reactivationRate / 100, 1);
+        if (returning <= 0) continue;
+        group.lapsed -= returning;
+        group.active += returning;
+        reactivationMrr += returning * priceOf(group);
+        bill(group, returning * priceOf(group) * remainingTermMonths(ageOf(group, month), termOf(group)));
+      }
+    }
+
+    // Modelled churn, scaled to the actual churned (or to the actual closing
+    // base) in imported months. Customers leaving at renewal have just been
+    // billed, so their refund cancels that term's charge.
+    const losses = [...groups.values()].map(group => ({ group, lost: group.active * churnShare(group, month) }));
+    const modelledLoss = losses.reduce((sum, { lost }) => sum + lost, 0);
+    const openingActive = losses.reduce((sum, { group }) => sum + group.active, 0);
+    const actualLoss = actual?.churnedCustomers ??
+      (actual?.activeCustomers !== undefined ? Math.max(openingActive - actual.activeCustomers, 0) : undefined);
+
+    // An actual base above the modelled one was reached by acquiring more than
+    // planned, unless the actual new customers say otherwise. The extra
+    // customers join this month's cohort and pay their first term now.
+    const shortfall = actual?.activeCustomers !== undefined && actual.newCustomers === undefined
+      ? Math.max(actual.activeCustomers - openingActive, 0)
+      : 0;
+    if (shortfall > 0) {
+      acquire(shortfall);
+      plans.forEach(plan => {
+        const group = groupFor(month, plan.id, pricePointAt(plan, month));
+        bill(group, shortfall * plan.weight * priceOf(group) * termOf(group));
+      });
+    }
+
+    let churnedThisMonth = 0;
+    let churnedMrr = 0;
+    losses.forEach(({ group, lost }) => {
+      const age = ageOf(group, month);
+      const scaled = actualLoss === undefined
+        ? lost
+        : modelledLoss > 0
+          ? lost * (actualLoss / modelledLoss)
+          : openingActive > 0 ? group.active * (actualLoss / openingActive) : 0;
+      const applied = Math.min(scaled, group.active);
+      group.active -= applied;
+      group.lapsed += applied;
+      churnedThisMonth += applied;
+      churnedMrr += applied * priceOf(group);
+      bill(group, -applied * priceOf(group) * remainingTermMonths(age, termOf(group)));
+    });
+
+    // Price changes migrating existing customers this month. Those who
+    // cancel are refunded like any churn; the rest are billed the difference
+    // for the rest of their term.
+    const migrations = [...groups.values()].flatMap(group => {
+      const points = plansById.get(group.planId)!.pricePoints;
+      const target = points.reduce(
+        (found, point, index) => index > group.pricePoint && point.migrationMonth === month ? index : found,
+        -1
+      );
+      return target === -1 || group.active <= 0 ? [] : [{ from: group, target, churnSpike: points[target].churnSpike }];
+    });
+    migrations.forEach(({ from, target, churnSpike }) => {
+      const age = ageOf(from, month);
+      const to = groupFor(from.month, from.planId, target);
+      if (to.active === 0) to.priceFactor = from.priceFactor;
+      const cancelled = from.active * (churnSpike / 100);
+      const moved = from.active - cancelled;
+      bill(from, -from.active * priceOf(from) * remainingTermMonths(age, termOf(from)));
+      bill(to, moved * priceOf(to) * remainingTermMonths(age, termOf(to)));
+      churnedMrr += cancelled * priceOf(from);
+      moveMrr(moved * (priceOf(to) - priceOf(from)));
+      // Anyone winning back returns at the new price
+      to.lapsed += from.lapsed + cancelled;
+      from.lapsed = 0;
+      from.active = 0;
+      to.active += moved;
+      churnedThisMonth += cancelled;
+    });
+
+    // Upgrades and downgrades, all measured against the post-churn base.
+    // Switchers pay the new plan's current price.
+    const transfers = [...groups.values()].flatMap(group =>
+      plansById.get(group.planId)!.movements.map(movement => ({
+        from: group,
+        to: groupFor(group.month, movement.toPlanId, pricePointAt(plansById.get(movement.toPlanId)!, month)),
+        count: group.active * (movement.monthlyRate / 100)
+      }))
+    );
+    transfers.forEach(({ from, to, count }) => {
+      const age = ageOf(from, month);
+      from.active -= count;
+      to.active += count;
+      moveMrr(count * (priceOf(to) - priceOf(from)));
+      bill(from, -count * priceOf(from) * remainingTermMonths(age, termOf(from)));
+      bill(to, count * priceOf(to) * remainingTermMonths(age, termOf(to)));
+    });
+
+    const retainedByCohort = new Array<number>(month + 1).fill(0);
+    const activeByPlan = new Map<string, number>();
+    const activeByPricePoint = new Map<string, number[]>(plans.map(plan => [plan.id, plan.pricePoints.map(() => 0)]));
+    const baseRevenueByPlan = new Map<string, number>();
+    for (const group of groups.values()) {
+      retainedByCohort[group.month] += group.active;
+      activeByPlan.set(group.planId, (activeByPlan.get(group.planId) ?? 0) + group.active);
+      activeByPricePoint.get(group.planId)![group.pricePoint] += group.active;
+      baseRevenueByPlan.set(group.planId, (baseRevenueByPlan.get(group.planId) ?? 0) + group.active * priceOf(group));
+    }
+    cohorts.forEach(cohort => cohort.retained.push(retainedByCohort[cohort.month]));
+
+    let activeCustomers = 0;
+    let baseMonthlyRevenue = 0;
+    let expansionRevenueAmount = 0;
+    const expansionByPlan = new Map<string, number>();
+    plans.forEach(plan => {
+      // Expansion revenue from existing customers upgrading
+      const expansion = (previousPlanMrr.get(plan.id) ?? 0) * (plan.expansionRate / 100);
+      activeCustomers += activeByPlan.get(plan.id) ?? 0;
+      baseMonthlyRevenue += baseRevenueByPlan.get(plan.id) ?? 0;
+      expansionRevenueAmount += expansion;
+      expansionByPlan.set(plan.id, expansion);
+    });
+
+    // Reprice every cohort so MRR lands on the actual figure, charging or
+    // refunding the difference for the rest of the current term
+    const modelledRevenue = baseMonthlyRevenue + expansionRevenueAmount;
+    const repricing = actual?.mrr !== undefined && modelledRevenue > 0 ? actual.mrr / modelledRevenue : 1;
+    if (repricing !== 1) {
+      for (const group of groups.values()) {
+        const age = ageOf(group, month);
+        bill(group, group.active * priceOf(group) * (repricing - 1) * remainingTermMonths(age, termOf(group)));
+        group.priceFactor *= repricing;
+      }
+      moveMrr(baseMonthlyRevenue * (repricing - 1));
+      baseMonthlyRevenue *= repricing;
+      expansionRevenueAmount *= repricing;
+      plans.forEach(plan => {
+        baseRevenueByPlan.set(plan.id, (baseRevenueByPlan.get(plan.id) ?? 0) * repricing);
+        expansionByPlan.set(plan.id, (expansionByPlan.get(plan.id) ?? 0) * repricing);
+      });
+    }
+
+    let deferredRevenue = 0;
+    for (const group of groups.values()) {
+      group.deferred -= group.active * priceOf(group);
+      deferredRevenue += group.deferred;
+    }
+
+    const planBreakdown: MonthData['planBreakdown'] = {};
+    plans.forEach(plan => {
+      const planMrr = (baseRevenueByPlan.get(plan.id) ?? 0) + (expansionByPlan.get(plan.id) ?? 0);
+      previousPlanMrr.set(plan.id, planMrr);
+      planBreakdown[plan.id] = {
+        activeCustomers: Math.round(activeByPlan.get(plan.id) ?? 0),
+        mrr: Math.round(planMrr),
+        pricePoints: plan.pricePoints.map((point, index) => ({
+          price: point.price,
+          activeCustomers: Math.round(activeByPricePoint.get(plan.id)![index])
+        }))
+      };
+    });
+    const monthlyRevenue = baseMonthlyRevenue + expansionRevenueAmount;
+    // Expansion is billed monthly on top of the plan price
+    cashCollected += expansionRevenueAmount;
+    moveMrr(expansionRevenueAmount - previousExpansion);
+    previousExpansion = expansionRevenueAmount;
+
+    // Expansion is shared across a plan's cohorts by their base revenue
+    const mrrByCohort = new Array<number>(month + 1).fill(0);
+    const expansionByCohort = new Array<number>(month + 1).fill(0);
+    for (const group of groups.values()) {
+      const planBase = baseRevenueByPlan.get(group.planId) ?? 0;
+      const base = group.active * priceOf(group);
+      const expansion = planBase > 0 ? (expansionByPlan.get(group.planId) ?? 0) * (base / planBase) : 0;
+      mrrByCohort[group.month] += base + expansion;
+      expansionByCohort[group.month] += expansion;
+    }
+    cohorts.forEach(cohort => {
+      cohort.mrr.push(mrrByCohort[cohort.month]);
+      cohort.expansionMrr.push(expansionByCohort[cohort.month]);
+    });
+
+    // Operating costs
+    const costOfRevenue = activeCustomers * costPerUser(scenario) + monthlyRevenue * (scenario.paymentProcessingRate / 100);
+    // A funnel spends on visitors as they arrive, ahead of their conversion
+    const acquisitionCost = funnel ? funnel[month - 1].spend : newCustomers * cac;
+    const freeUsers = funnel ? funnel[month - 1].freeUsers : 0;
+    const freeUserCost = freeUsers * scenario.acquisition.funnel.freeUserCost;
+    const fixedCosts = finance.fixedCosts.reduce((sum, cost) => sum + fixedCostForMonth(cost, month), 0);
+    finance.hires.forEach(hire => {
+      if (hireTriggered(hire, month, activeCustomers, monthlyRevenue)) hired.add(hire.id);
+    });
+    const payroll = finance.hires.reduce((sum, hire) => sum + (hired.has(hire.id) ? hire.monthlySalary : 0), 0);
+    const totalOperatingCosts = costOfRevenue + acquisitionCost + fixedCosts + payroll + freeUserCost;
+    const marginOf = (costs: number) => monthlyRevenue > 0 ? ((monthlyRevenue - costs) / monthlyRevenue) * 100 : 0;
+
+    const netMonthlyRevenue = monthlyRevenue - acquisitionCost;
+    const monthlyProfit = monthlyRevenue - totalOperatingCosts;
+    const funding = finance.fundingEvents.reduce((sum, event) => sum + (event.month === month ? event.amount : 0), 0);
+
+    cumulativeRevenue += monthlyRevenue;
+    cumulativeNetRevenue += netMonthlyRevenue;
+    cumulativeProfit += monthlyProfit;
+    cashBalance += cashCollected + funding - totalOperatingCosts;
+
+    data.push({
+      month,
+      date: monthLabel(startDate, month - 1),
+      revenue: Math.round(cumulativeRevenue),
+      mrr: Math.round(monthlyRevenue),
+      activeCustomers: Math.round(activeCustomers),
+      newCustomers: Math.round(newCustomers),
+      churnedCustomers: Math.round(churnedThisMonth),
+      cumulativeCustomers: Math.round(cumulativeCustomers),
+      netRevenue: Math.round(cumulativeNetRevenue),
+      expansionRevenue: Math.round(expansionRevenueAmount),
+      newMrr: Math.round(newMrr),
+      reactivationMrr: Math.round(reactivationMrr),
+      expansionMrr: Math.round(expansionMrr),
+      contractionMrr: Math.round(contractionMrr),
+      churnedMrr: Math.round(churnedMrr),
+      costOfRevenue: Math.round(costOfRevenue),
+      acquisitionCost: Math.round(acquisitionCost),
+      fixedCosts: Math.round(fixedCosts),
+      payroll: Math.round(payroll),
+      freeUserCost: Math.round(freeUserCost),
+      operatingCosts: Math.round(totalOperatingCosts),
+      freeUsers: Math.round(freeUsers),
+      headcount: hired.size,
+      netIncome: Math.round(monthlyProfit),
+      grossMargin: Math.round(marginOf(costOfRevenue) * 10) / 10,
+      contributionMargin: Math.round(marginOf(costOfRevenue + acquisitionCost) * 10) / 10,
+      profit: Math.round(cumulativeProfit),
+      recognizedRevenue: Math.round(monthlyRevenue),
+      cashCollected: Math.round(cashCollected),
+      deferredRevenue: Math.round(Math.max(deferredRevenue, 0)),
+      funding: Math.round(funding),
+      cashBalance: Math.round(cashBalance),
+      planBreakdown
+    });
+  }
+
+  return { projections: data, cohorts };
+};
+
+// Unit economics of one plan, on gross profit rather than price: lifetime
+// value at its margin, churn and billing term (a year of gross profit when it
+// never churns), its CAC, and months of gross profit to recover that CAC.
+const planEconomics = (plan: ResolvedPlan, scenario: Scenario) => {
+  const lifetime = expectedLifetimeMonths(scenario.retentionCurve, plan.churnRate, plan.billingTermMonths);
+  const margin = monthlyGrossProfit(scenario, plan.price);
+  const clv = Number.isFinite(lifetime) ? margin * lifetime : margin * 12;
+  return {
+    lifetime,
+    margin,
+    clv,
+    cac: plan.cac,
+    ltvCacRatio: plan.cac > 0 ? clv / plan.cac : 0,
+    paybackPeriod: margin > 0 ? plan.cac / margin : 0
+  };
+};
+
+// Per-customer economics blended across the acquisition mix
+export const blendedUnitEconomics = (scenario: Scenario) => {
+  const plans = resolvePlans(scenario);
+  const economics = plans.map(plan => planEconomics(plan, scenario));
+  const blend = (value: (index: number) => number) =>
+    plans.reduce((sum, plan, index) => sum + plan.weight * value(index), 0);
+  return {
+    clv: blend(i => economics[i].clv),
+    cac: blend(i => economics[i].cac),
+    // Gross profit per customer per month
+    margin: blend(i => economics[i].margin),
+    price: blend(i => plans[i].price)
+  };
+};
+
+// Months over which trailing metrics look back from the final month: a year,
+// or as much of one as the horizon has (shorter windows are not annualised)
+const trailingWindow = (projections: MonthData[]) => Math.min(12, projections.length - 1);
+
+// Annual net and gross revenue retention of the customers already on board a
+// year before the final month: their MRR now over their MRR then. Gross
+// retention leaves out expansion and caps each cohort at its starting MRR.
+export const trailingRetention = (projections: MonthData[], cohorts: CohortData[]) => {
+  const months = projections.length;
+  const window = trailingWindow(projections);
+  const baseMonth = months - window;
+  const existing = cohorts.filter(c => c.month <= baseMonth);
+  const at = (values: number[], cohort: CohortData, month: number) => values[month - cohort.month] ?? 0;
+  const sum = (value: (cohort: CohortData) => number) => existing.reduce((total, c) => total + value(c), 0);
+
+  const startingMrr = sum(c => at(c.mrr, c, baseMonth));
+  const endingMrr = sum(c => at(c.mrr, c, months));
+  const expansionMrr = sum(c => at(c.expansionMrr, c, months));
+  const grossMrr = sum(c => Math.min(at(c.mrr, c, months) - at(c.expansionMrr, c, months), at(c.mrr, c, baseMonth)));
+  const retention = (retained: number) => startingMrr > 0 ? (retained / startingMrr) * 100 : 0;
+
+  return {
+    window,
+    baseMonth,
+    startingMrr,
+    endingMrr,
+    expansionMrr,
+    grossMrr,
+    nrr: retention(endingMrr),
+    grr: retention(grossMrr)
+  };
+};
+
+// Year-over-year MRR growth at the final month, in percent. When the business
+// starts from zero MRR the base is the first month with revenue; null when
+// there is nothing to grow from, or when the horizon is too short to reach a
+// year past month 1 (growth out of the launch ramp is not yearly growth).
+export const trailingGrowthRate = (projections: MonthData[]) => {
+  if (projections.length <= 12) return null;
+  const final = projections[projections.length - 1];
+  const from = projections.length - 1 - trailingWindow(projections);
+  const base = projections.slice(from, -1).find(d => d.mrr > 0);
+  if (!final || !base) return null;
+  return {
+    baseMonth: base.month,
+    baseMrr: base.mrr,
+    finalMrr: final.mrr,
+    growth: ((final.mrr - base.mrr) / base.mrr) * 100
+  };
+};
+
+// Net income over recognised revenue for the trailing year
+export const trailingProfitMargin = (projections: MonthData[]) => {
+  const year = projections.slice(-12);
+  const revenue = year.reduce((sum, d) => sum + d.recognizedRevenue, 0);
+  const netIncome = year.reduce((sum, d) => sum + d.netIncome, 0);
+  return { months: year.length, revenue, netIncome, margin: revenue > 0 ? (netIncome / revenue) * 100 : 0 };
+};
+
+// MRR movements over the trailing year and the Quick Ratio they give
+export const trailingQuickRatio = (projections: MonthData[]) => {
+  const year = projections.slice(-12);
+  const bridge = mrrBridge(projections, year[0]?.month ?? 1, year[year.length - 1]?.month ?? 0);
+  return { months: year.length, ...bridge, ratio: quickRatio(bridge.movements) };
+};
+
+// Revenue per paying customer in the final month, so the plan mix and
+// expansion count; before there are customers, the mix-weighted price
+export const blendedArpu = (projections: MonthData[], scenario: Scenario): number => {
+  const final = projections[projections.length - 1];
+  if (final && final.activeCustomers > 0) return final.mrr / final.activeCustomers;
+  return blendedUnitEconomics(scenario).price;
+};
+
+// Whether cumulative profit has stopped being negative by this month. A
+// business that has earned nothing has not broken even, however little it
+// has spent.
+export const isBrokenEven = (month: MonthData): boolean => month.profit >= 0 && month.revenue > 0;
+
+export const calculateBusinessMetrics = (
+  projections: MonthData[],
+  cohorts: CohortData[],
+  scenario: Scenario
+): BusinessMetrics => {
+  const plans = resolvePlans(scenario);
+  const finalMonth = projections[projections.length - 1];
+  const arr = finalMonth?.mrr * 12 || 0;
+
+  const { clv, cac: blendedCac, margin: blendedMargin } = blendedUnitEconomics(scenario);
+  const paybackPeriod = blendedMargin > 0 ? blendedCac / blendedMargin : 0;
+  const ltvCacRatio = blendedCac > 0 ? clv / blendedCac : 0;
+
+  const { nrr, grr } = trailingRetention(projections, cohorts);
+
+  // Rule of 40: YoY growth plus trailing-year profit margin, only once a
+  // year's growth can be measured
+  const growthRate = trailingGrowthRate(projections)?.growth ?? null;
+  const ruleOf40 = projections.length > 12 ? (growthRate ?? 0) + trailingProfitMargin(projections).margin : null;
+  const quick = trailingQuickRatio(projections).ratio;
+
+  const valuationRange = valueBusiness(projections, scenario.valuation, arr, nrr, growthRate);
+
+  const breakEven = projections.find(isBrokenEven);
+  const zeroCash = projections.find(d => d.cashBalance < 0);
+
+  // Gross margin over the whole horizon, from the modelled cost of revenue
+  const totalRevenue = projections.reduce((sum, d) => sum + d.recognizedRevenue, 0);
+  const totalCostOfRevenue = projections.reduce((sum, d) => sum + d.costOfRevenue, 0);
+  const grossMargin = totalRevenue > 0 ? ((totalRevenue - totalCostOfRevenue) / totalRevenue) * 100 : 0;
+
+  const planMetrics: PlanMetrics[] = scenario.plans.length > 0
+    ? plans.map(plan => {
+      const economics = planEconomics(plan, scenario);
+      return {
+        planId: plan.id,
+        name: plan.name,
+        clv: Math.round(economics.clv),
+        cac: plan.cac,
+        ltvCacRatio: Math.round(economics.ltvCacRatio * 10) / 10,
+        paybackPeriod: Math.round(economics.paybackPeriod * 10) / 10
+      };
+    })
+    : [];
+
+  return {
+    clv: Math.round(clv),
+    arr: Math.round(arr),
+    valuation: valuationRange.base,
+    valuationRange,
+    paybackPeriod: Math.round(paybackPeriod * 10) / 10,
+    grossMargin: Math.round(grossMargin * 10) / 10,
+    ltvCacRatio: Math.round(ltvCacRatio * 10) / 10,
+    nrr: Math.round(nrr * 10) / 10,
+    grr: Math.round(grr * 10) / 10,
+    ruleOf40: ruleOf40 === null ? null : Math.round(ruleOf40 * 10) / 10,
+    quickRatio: quick === null ? null : Math.round(quick * 10) / 10,
+    breakEvenMonth: breakEven ? breakEven.month : -1,
+    zeroCashMonth: zeroCash ? zeroCash.month : -1,
+    averageArpu: Math.round(blendedArpu(projections, scenario) * 100) / 100,
+    planMetrics
+  };
+};
+
+// Runs the full model for one scenario: the monthly series plus the summary
+// metrics derived from it. Pure, so it can be used outside the React app.
+export const calculateProjections = (scenario: Scenario): ProjectionResult => {
+  const { projections, cohorts } = projectMonths(scenario);
+  return {
+    projections,
+    metrics: calculateBusinessMetrics(projections, cohorts, scenario),
+    cohorts
+  };
+};
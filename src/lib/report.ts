@@ -0,0 +1,443 @@
+import { MONTH_NAMES } from './acquisition';
+import { assumptionRows } from './export';
+import type { Cell, SheetRow } from './export';
+import { formatCurrencyTick } from './format';
+import { buildInsights } from './insights';
+import type { Insight } from './insights';
+import { fitText, PAGE_HEIGHT, PAGE_WIDTH, renderPdf, textWidth, wrapText } from './pdf';
+import type { PdfFont, PdfImage, PdfOp, PdfPage } from './pdf';
+import type { MonthData, ProjectionResult, Scenario } from './types';
+
+// A JPEG data URL and its pixel size
+export interface ReportLogo {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface ReportSettings {
+  companyName: string;
+  logo: ReportLogo | null;
+}
+
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = { companyName: '', logo: null };
+
+const STORAGE_KEY = 'saas-calculator:report';
+
+// Branding is kept in the browser rather than the shared scenario, so links
+// stay short and the logo never ends up in a URL
+export const loadReportSettings = (): ReportSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof raw !== 'object' || raw === null) return DEFAULT_REPORT_SETTINGS;
+    const logo = raw.logo;
+    return {
+      companyName: typeof raw.companyName === 'string' ? raw.companyName : '',
+      logo: logo && typeof logo.dataUrl === 'string' && logo.dataUrl.startsWith('data:image/jpeg;base64,')
+        && typeof logo.width === 'number' && typeof logo.height === 'number'
+        ? { dataUrl: logo.dataUrl, width: logo.width, height: logo.height }
+        : null
+    };
+  } catch {
+    return DEFAULT_REPORT_SETTINGS;
+  }
+};
+
+export const saveReportSettings = (settings: ReportSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be full or disabled; the branding then lasts for the session
+  }
+};
+
+const LOGO_MAX_SIZE = 400;
+
+// Any image the browser can open, redrawn as a JPEG no larger than 400px on
+// its longest side. JPEG has no transparency, so transparent areas turn
+// white like the page behind them.
+export const readLogo = async (file: File): Promise<ReportLogo> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(LOGO_MAX_SIZE / Math.max(bitmap.width, bitmap.height), 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(Math.round(bitmap.width * scale), 1);
+  canvas.height = Math.max(Math.round(bitmap.height * scale), 1);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { dataUrl: canvas.toDataURL('image/jpeg', 0.9), width: canvas.width, height: canvas.height };
+};
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - MARGIN - 16;
+
+const BRAND = '#6b46c1';
+const TEXT = '#1a202c';
+const MUTED = '#718096';
+const RULE = '#e2e8f0';
+const PANEL = '#f7fafc';
+const GOOD = '#2f855a';
+const FAIR = '#b7791f';
+const INSIGHT_COLORS: Record<Insight['type'], string> = {
+  success: '#38a169',
+  warning: '#d69e2e',
+  danger: '#e53e3e',
+  info: '#3182ce'
+};
+
+// Figures are formatted here rather than with the app's helpers so the
+// report reads the same whatever the browser's locale
+const grouped = (value: number, decimals = 0) =>
+  Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+const money = (value: number) => `${value < 0 ? '-' : ''}$${grouped(Math.round(value))}`;
+const count = (value: number) => `${value < 0 ? '-' : ''}${grouped(Math.round(value))}`;
+
+const cellText = (cell: Cell | null): string => {
+  if (!cell) return '';
+  if (typeof cell.value === 'string' || !cell.format) return String(cell.value);
+  const value = cell.value;
+  switch (cell.format) {
+    case 'currency':
+      return Number.isInteger(value) ? money(value) : `${value < 0 ? '-' : ''}$${grouped(value, 2)}`;
+    case 'percent':
+      return `${Math.round(value * 10) / 10}%`;
+    case 'months':
+      return `${Math.round(value * 10) / 10} mo`;
+    case 'ratio':
+      return `${Math.round(value * 10) / 10}:1`;
+    case 'count':
+      return count(value);
+  }
+};
+
+const monthName = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+};
+
+const decodeLogo = (logo: ReportLogo): PdfImage => {
+  const binary = atob(logo.dataUrl.slice(logo.dataUrl.indexOf(',') + 1));
+  return { data: Uint8Array.from(binary, char => char.charCodeAt(0)), width: logo.width, height: logo.height };
+};
+
+// Round step for about `intervals` gridlines over `range`
+const niceStep = (range: number, intervals: number) => {
+  const raw = range / intervals;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 2.5, 5, 10].map(f => f * magnitude).find(step => step >= raw) ?? magnitude * 10;
+};
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  kind: 'line' | 'bar';
+  values: number[];
+}
+
+// A line/bar chart of monthly values with a zero-based value axis, drawn as
+// vector paths into a box `height` points tall
+const chartOps = (top: number, height: number, title: string, months: number[], series: ChartSeries[]): PdfOp[] => {
+  const ops: PdfOp[] = [{ type: 'text', x: MARGIN, y: top + 12, text: title, size: 11, font: 'bold', color: TEXT }];
+  let legendX = MARGIN + CONTENT_WIDTH;
+  [...series].reverse().forEach(s => {
+    const width = textWidth(s.label, 8);
+    legendX -= width;
+    ops.push({ type: 'text', x: legendX, y: top + 12, text: s.label, size: 8, color: MUTED });
+    legendX -= 12;
+    ops.push({ type: 'rect', x: legendX, y: top + 5, width: 8, height: 8, fill: s.color });
+    legendX -= 12;
+  });
+
+  const plot = { x: MARGIN + 52, y: top + 24, width: CONTENT_WIDTH - 52, height: height - 44 };
+  const values = series.flatMap(s => s.values);
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const step = niceStep(high - low || 1, 4);
+  const min = Math.floor(low / step) * step;
+  const max = Math.ceil(high / step) * step || step;
+  const yOf = (value: number) => plot.y + plot.height - ((value - min) / (max - min)) * plot.height;
+  const slot = plot.width / Math.max(months.length, 1);
+  const xOf = (index: number) => plot.x + slot * (index + 0.5);
+
+  for (let tick = min; tick <= max + step / 2; tick += step) {
+    const y = yOf(tick);
+    ops.push({ type: 'line', points: [[plot.x, y], [plot.x + plot.width, y]], color: tick === 0 ? '#a0aec0' : RULE, width: 0.5 });
+    ops.push({ type: 'text', x: plot.x - 6, y: y + 3, text: formatCurrencyTick(Math.round(tick)), size: 7, color: MUTED, align: 'right' });
+  }
+  const labelEvery = months.length <= 12 ? 1 : months.length <= 36 ? 3 : months.length <= 60 ? 6 : 12;
+  months.forEach((month, index) => {
+    if (month % labelEvery !== 0 && index !== 0) return;
+    ops.push({ type: 'text', x: xOf(index), y: plot.y + plot.height + 11, text: String(month), size: 7, color: MUTED, align: 'center' });
+  });
+  ops.push({ type: 'text', x: plot.x + plot.width / 2, y: plot.y + plot.height + 20, text: 'Month', size: 7, color: MUTED, align: 'center' });
+
+  series.forEach(s => {
+    if (s.kind === 'bar') {
+      const width = Math.max(slot * 0.7, 0.5);
+      s.values.forEach((value, index) => {
+        const y = Math.min(yOf(value), yOf(0));
+        const barHeight = Math.abs(yOf(value) - yOf(0));
+        if (barHeight > 0) ops.push({ type: 'rect', x: xOf(index) - width / 2, y, width, height: barHeight, fill: s.color });
+      });
+    } else {
+      ops.push({ type: 'line', points: s.values.map((value, index) => [xOf(index), yOf(value)]), color: s.color, width: 1.5 });
+    }
+  });
+  return ops;
+};
+
+interface MetricCard {
+  label: string;
+  value: string;
+  note: string;
+  color?: string;
+}
+
+// Pages of the investor report: cover, assumptions, key metrics, charts, the
+// monthly table and the insights. Everything on them comes from the scenario,
+// its projection and the branding, so generating twice gives the same file.
+export const buildReportPages = (
+  scenario: Scenario,
+  { projections, metrics }: ProjectionResult,
+  settings: ReportSettings
+): PdfPage[] => {
+  const pages: PdfPage[] = [];
+  const companyName = settings.companyName.trim();
+  const finalMonth: MonthData | undefined = projections[projections.length - 1];
+  let page: PdfPage = [];
+  let y = 0;
+
+  const text = (x: number, baseline: number, value: string, size: number, font: PdfFont = 'regular', color = TEXT, align: 'left' | 'center' | 'right' = 'left') =>
+    page.push({ type: 'text', x, y: baseline, text: value, size, font, color, align });
+
+  const newPage = () => {
+    page = [
+      { type: 'text', x: MARGIN, y: MARGIN - 16, text: companyName || 'SaaS Revenue Projection', size: 8, font: 'bold', color: BRAND },
+      { type: 'text', x: MARGIN + CONTENT_WIDTH, y: MARGIN - 16, text: `${scenario.months}-month projection from ${monthName(scenario.startDate)}`, size: 8, color: MUTED, align: 'right' },
+      { type: 'line', points: [[MARGIN, MARGIN - 10], [MARGIN + CONTENT_WIDTH, MARGIN - 10]], color: RULE, width: 0.5 }
+    ];
+    pages.push(page);
+    y = MARGIN + 8;
+  };
+  const ensure = (height: number) => {
+    if (y + height > BOTTOM) newPage();
+  };
+  const heading = (title: string) => {
+    ensure(40);
+    text(MARGIN, y + 16, title, 16, 'bold', TEXT);
+    page.push({ type: 'rect', x: MARGIN, y: y + 22, width: 40, height: 2, fill: BRAND });
+    y += 38;
+  };
+
+  // Cover
+  page = [{ type: 'rect', x: 0, y: 0, width: PAGE_WIDTH, height: 10, fill: BRAND }];
+  pages.push(page);
+  let coverY = 140;
+  if (settings.logo) {
+    const scale = Math.min(180 / settings.logo.width, 80 / settings.logo.height);
+    const height = settings.logo.height * scale;
+    page.push({ type: 'image', x: MARGIN, y: coverY - height, width: settings.logo.width * scale, height, image: decodeLogo(settings.logo) });
+    coverY += 50;
+  }
+  if (companyName) {
+    text(MARGIN, coverY, companyName, 30, 'bold', TEXT);
+    coverY += 36;
+  }
+  text(MARGIN, coverY, 'SaaS Revenue Projection', companyName ? 18 : 30, companyName ? 'regular' : 'bold', companyName ? BRAND : TEXT);
+  coverY += 24;
+  text(MARGIN, coverY, `${scenario.months}-month projection starting ${monthName(scenario.startDate)}`, 11, 'regular', MUTED);
+  coverY += 60;
+
+  const headline = [
+    { label: `Month ${finalMonth?.month ?? 0} MRR`, value: money(finalMonth?.mrr ?? 0) },
+    { label: 'ARR', value: money(metrics.arr) },
+    { label: 'Active customers', value: count(finalMonth?.activeCustomers ?? 0) },
+    { label: 'Valuation (base)', value: money(metrics.valuation) }
+  ];
+  const headlineWidth = (CONTENT_WIDTH - 3 * 10) / 4;
+  headline.forEach((item, index) => {
+    const x = MARGIN + index * (headlineWidth + 10);
+    page.push({ type: 'rect', x, y: coverY, width: headlineWidth, height: 58, fill: PANEL, stroke: RULE, lineWidth: 0.5 });
+    text(x + 10, coverY + 18, item.label, 8, 'regular', MUTED);
+    text(x + 10, coverY + 42, fitText(item.value, 16, headlineWidth - 20, 'bold'), 16, 'bold', BRAND);
+  });
+  text(MARGIN, PAGE_HEIGHT - MARGIN, 'Figures are model projections from the assumptions listed in this report, not guarantees of results.', 8, 'regular', MUTED);
+
+  // Assumptions
+  newPage();
+  const rows: SheetRow[] = assumptionRows(scenario);
+  rows.forEach((row, index) => {
+    if (row.length === 0) {
+      y += 8;
+      return;
+    }
+    if (index === 0) {
+      heading(cellText(row[0]));
+      return;
+    }
+    const previous = rows[index - 1];
+    const next = rows[index + 1];
+    const isHeader = previous.length === 0 && row.length > 2 && next !== undefined && next.length === row.length
+      && row.every(c => c !== null && !c.format);
+    const widths = row.length <= 3
+      ? [190, 110, CONTENT_WIDTH - 300].slice(0, row.length)
+      : [90, ...row.slice(1).map(() => (CONTENT_WIDTH - 90) / (row.length - 1))];
+    const size = row.length > 3 ? 7.5 : 8.5;
+    const lineHeight = size + 2;
+    // Long cells wrap within their column
+    const cells = row.map((cell, column) => {
+      const font: PdfFont = isHeader || (column === 0 && row.length <= 3) ? 'bold' : 'regular';
+      const lines = wrapText(cellText(cell), size, widths[column] - 8, font)
+        .map(line => fitText(line, size, widths[column] - 8, font));
+      return { font, lines };
+    });
+    const height = Math.max(1, ...cells.map(c => c.lines.length)) * lineHeight + 4;
+    ensure(height);
+    if (isHeader) page.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height, fill: PANEL });
+    let x = MARGIN;
+    cells.forEach(({ font, lines }, column) => {
+      // Notes after a label and value are secondary
+      const color = row.length === 3 && column === 2 && !isHeader ? MUTED : TEXT;
+      lines.forEach((line, index) => text(x + 4, y + size + 1 + index * lineHeight, line, size, font, color));
+      x += widths[column];
+    });
+    if (!isHeader) page.push({ type: 'line', points: [[MARGIN, y + height], [MARGIN + CONTENT_WIDTH, y + height]], color: RULE, width: 0.5 });
+    y += height;
+  });
+
+  // Key metrics, as on the dashboard
+  newPage();
+  heading('Key Metrics');
+  const status = (good: boolean) => (good ? GOOD : FAIR);
+  const cards: MetricCard[] = [
+    { label: 'Customer Lifetime Value', value: money(metrics.clv), note: 'Gross profit per customer' },
+    { label: 'Annual Recurring Revenue', value: money(metrics.arr), note: 'Final-month MRR x 12' },
+    {
+      label: 'Business Valuation',
+      value: money(metrics.valuation),
+      note: `${money(metrics.valuationRange.low)} - ${money(metrics.valuationRange.high)} range`
+    },
+    { label: 'LTV:CAC Ratio', value: `${metrics.ltvCacRatio}:1`, note: 'Target 3:1 or better', color: status(metrics.ltvCacRatio >= 3) },
+    { label: 'CAC Payback Period', value: `${metrics.paybackPeriod} mo`, note: 'Target 12 months or less', color: status(metrics.paybackPeriod <= 12) },
+    { label: 'Average ARPU', value: `$${grouped(metrics.averageArpu, 2)}`, note: 'Final month, per customer' },
+    { label: 'Final Month MRR', value: money(finalMonth?.mrr ?? 0), note: `Month ${finalMonth?.month ?? 0}` },
+    { label: 'Active Customers', value: count(finalMonth?.activeCustomers ?? 0), note: `At month ${finalMonth?.month ?? 0}` },
+    { label: 'Net Revenue Retention', value: `${metrics.nrr}%`, note: 'Trailing 12 months', color: status(metrics.nrr >= 100) },
+    { label: 'Gross Revenue Retention', value: `${metrics.grr}%`, note: 'Trailing 12 months', color: status(metrics.grr >= 90) },
+    {
+      label: 'Rule of 40',
+      value: metrics.ruleOf40 === null ? 'n/a' : `${metrics.ruleOf40}%`,
+      note: metrics.ruleOf40 === null ? 'Needs over a year of horizon' : 'Growth + profit margin',
+      color: metrics.ruleOf40 === null ? MUTED : status(metrics.ruleOf40 >= 40)
+    },
+    {
+      label: 'Quick Ratio',
+      value: metrics.quickRatio === null ? 'n/a' : String(metrics.quickRatio),
+      note: metrics.quickRatio === null ? 'No MRR lost' : 'MRR gained per $ lost',
+      color: status(metrics.quickRatio === null || metrics.quickRatio >= 4)
+    }
+  ];
+  const cardWidth = (CONTENT_WIDTH - 2 * 12) / 3;
+  cards.forEach((card, index) => {
+    const x = MARGIN + (index % 3) * (cardWidth + 12);
+    const top = y + Math.floor(index / 3) * 74;
+    page.push({ type: 'rect', x, y: top, width: cardWidth, height: 62, fill: PANEL, stroke: RULE, lineWidth: 0.5 });
+    text(x + 10, top + 16, card.label, 8, 'regular', MUTED);
+    text(x + 10, top + 38, fitText(card.value, 17, cardWidth - 20, 'bold'), 17, 'bold', card.color ?? BRAND);
+    text(x + 10, top + 53, fitText(card.note, 7.5, cardWidth - 20), 7.5, 'regular', MUTED);
+  });
+  y += Math.ceil(cards.length / 3) * 74 + 6;
+
+  const breakEven = metrics.breakEvenMonth > 0 ? `month ${metrics.breakEvenMonth}` : 'not reached';
+  const cashOut = metrics.zeroCashMonth > 0 ? `month ${metrics.zeroCashMonth}` : 'never';
+  text(MARGIN, y + 10, `Break-even: ${breakEven}. Cash runs out: ${cashOut}. Gross margin over the projection: ${metrics.grossMargin}%.`, 9, 'regular', TEXT);
+
+  // Charts
+  newPage();
+  heading('Revenue, MRR and Profit');
+  const months = projections.map(d => d.month);
+  const chartHeight = (BOTTOM - y) / 3;
+  [
+    chartOps(y, chartHeight - 8, 'Cumulative Revenue', months, [
+      { label: 'Revenue', color: '#805ad5', kind: 'line', values: projections.map(d => d.revenue) },
+      { label: 'Net of acquisition', color: '#38a169', kind: 'line', values: projections.map(d => d.netRevenue) }
+    ]),
+    chartOps(y + chartHeight, chartHeight - 8, 'Monthly Recurring Revenue', months, [
+      { label: 'MRR', color: '#805ad5', kind: 'line', values: projections.map(d => d.mrr) }
+    ]),
+    chartOps(y + chartHeight * 2, chartHeight - 8, 'Profit', months, [
+      { label: 'Net income', color: '#90cdf4', kind: 'bar', values: projections.map(d => d.netIncome) },
+      { label: 'Cumulative profit', color: '#dd6b20', kind: 'line', values: projections.map(d => d.profit) }
+    ])
+  ].forEach(ops => page.push(...ops));
+
+  // Monthly table
+  newPage();
+  heading('Monthly Projection');
+  const columns: { label: string; width: number; value: (d: MonthData) => string }[] = [
+    { label: 'Month', width: 34, value: d => String(d.month) },
+    { label: 'Date', width: 44, value: d => d.date },
+    { label: 'MRR', width: 52, value: d => money(d.mrr) },
+    { label: 'Customers', width: 48, value: d => count(d.activeCustomers) },
+    { label: 'New', width: 38, value: d => count(d.newCustomers) },
+    { label: 'Churned', width: 40, value: d => count(d.churnedCustomers) },
+    { label: 'Op. costs', width: 56, value: d => money(d.operatingCosts) },
+    { label: 'Net income', width: 56, value: d => money(d.netIncome) },
+    { label: 'Cum. profit', width: 62, value: d => money(d.profit) },
+    { label: 'Cash', width: CONTENT_WIDTH - 430, value: d => money(d.cashBalance) }
+  ];
+  const tableHeader = () => {
+    page.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 14, fill: BRAND });
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      x += column.width;
+      if (index < 2) text(x - column.width + 4, y + 10, column.label, 7.5, 'bold', '#ffffff');
+      else text(x - 4, y + 10, column.label, 7.5, 'bold', '#ffffff', 'right');
+    });
+    y += 14;
+  };
+  tableHeader();
+  projections.forEach((d, index) => {
+    if (y + 11 > BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+    if (index % 2 === 1) page.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 11, fill: PANEL });
+    let x = MARGIN;
+    columns.forEach((column, columnIndex) => {
+      x += column.width;
+      const color = column.label === 'Net income' && d.netIncome < 0 ? '#c53030' : TEXT;
+      if (columnIndex < 2) text(x - column.width + 4, y + 8, column.value(d), 7, 'regular', color);
+      else text(x - 4, y + 8, column.value(d), 7, 'regular', color, 'right');
+    });
+    y += 11;
+  });
+
+  // Insights
+  newPage();
+  heading('Insights');
+  buildInsights(metrics, finalMonth, projections, scenario).forEach(insight => {
+    const lines = wrapText(insight.text, 9.5, CONTENT_WIDTH - 18);
+    const height = lines.length * 13 + 8;
+    ensure(height);
+    page.push({ type: 'rect', x: MARGIN, y, width: 3, height, fill: INSIGHT_COLORS[insight.type] });
+    lines.forEach((line, index) => text(MARGIN + 12, y + 14 + index * 13, line, 9.5, 'regular', TEXT));
+    y += height + 10;
+  });
+
+  // Page numbers, now the count is known (the cover has none)
+  pages.forEach((p, index) => {
+    if (index === 0) return;
+    p.push({ type: 'text', x: MARGIN + CONTENT_WIDTH, y: PAGE_HEIGHT - MARGIN + 8, text: `Page ${index + 1} of ${pages.length}`, size: 8, color: MUTED, align: 'right' });
+  });
+  return pages;
+};
+
+export const buildReport = (scenario: Scenario, result: ProjectionResult, settings: ReportSettings): Blob => {
+  const title = `${settings.companyName.trim() || 'SaaS'} Revenue Projection`;
+  const pdf = renderPdf(buildReportPages(scenario, result, settings), title);
+  return new Blob([pdf], { type: 'application/pdf' });
+};
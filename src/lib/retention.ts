@@ -0,0 +1,112 @@
+import type { RetentionCurve } from './types';
+
+export interface RetentionPreset {
+  id: string;
+  label: string;
+  icon: string;
+  description: string;
+  churnRate: number;
+  retentionCurve: RetentionCurve;
+}
+
+// Named curves behind the "Business Maturity Level" buttons. Each one loses a
+// large share of new customers in their first month, then settles into the
+// steady monthly churn rate.
+export const RETENTION_PRESETS: RetentionPreset[] = [
+  {
+    id: 'successful',
+    label: 'Successful',
+    icon: '🏆',
+    description: '10% month 1, then 5%/mo',
+    churnRate: 5,
+    retentionCurve: { type: 'cliff', firstMonthChurn: 10 }
+  },
+  {
+    id: 'intermediate',
+    label: 'Intermediate',
+    icon: '📈',
+    description: '20% month 1, then 10%/mo',
+    churnRate: 10,
+    retentionCurve: { type: 'cliff', firstMonthChurn: 20 }
+  },
+  {
+    id: 'mvp',
+    label: 'MVP Product',
+    icon: '🚀',
+    description: '40% month 1, then 25%/mo',
+    churnRate: 25,
+    retentionCurve: { type: 'cliff', firstMonthChurn: 40 }
+  }
+];
+
+const clampRate = (rate: number) => Math.min(Math.max(rate, 0), 1);
+
+// Share of the customers still active at the start of their `age`-th month
+// (1 = the month they were acquired) who cancel during that month.
+// `churnRate` is the steady monthly churn in percent, used by the
+// exponential curve, after a cliff, and once a custom table runs out.
+export const churnHazard = (curve: RetentionCurve, churnRate: number, age: number): number => {
+  switch (curve.type) {
+    case 'exponential':
+      return clampRate(churnRate / 100);
+    case 'cliff':
+      return clampRate((age === 1 ? curve.firstMonthChurn : churnRate) / 100);
+    case 'custom': {
+      if (age > curve.retention.length) return clampRate(churnRate / 100);
+      const previous = age === 1 ? 100 : curve.retention[age - 2];
+      return previous > 0 ? clampRate(1 - curve.retention[age - 1] / previous) : 1;
+    }
+  }
+};
+
+// Percentage of a cohort still active at the end of each of its first
+// `ages` months.
+export const retentionSeries = (curve: RetentionCurve, churnRate: number, ages: number): number[] => {
+  const series: number[] = [];
+  let surviving = 1;
+  for (let age = 1; age <= ages; age++) {
+    surviving *= 1 - churnHazard(curve, churnRate, age);
+    series.push(surviving * 100);
+  }
+  return series;
+};
+
+// Expected number of paying months per customer. Ages before the curve
+// settles are summed directly, the steady tail geometrically. Customers on a
+// `termMonths` billing term pay for each term they start, as they can only
+// cancel at renewal. Infinite when there is no steady churn.
+export const expectedLifetimeMonths = (curve: RetentionCurve, churnRate: number, termMonths = 1): number => {
+  const headLength = curve.type === 'cliff' ? 1 : curve.type === 'custom' ? curve.retention.length : 0;
+  const tailHazard = clampRate(churnRate / 100);
+
+  let lifetime = 0;
+  let surviving = 1;
+  let age = 0;
+  while (age < headLength) {
+    lifetime += surviving * termMonths;
+    for (let month = 0; month < termMonths; month++) {
+      age += 1;
+      surviving *= 1 - churnHazard(curve, churnRate, age);
+    }
+  }
+  if (surviving === 0) return lifetime;
+  const termSurvival = (1 - tailHazard) ** termMonths;
+  return termSurvival < 1 ? lifetime + (surviving * termMonths) / (1 - termSurvival) : Infinity;
+};
+
+export const describeRetentionCurve = (curve: RetentionCurve, churnRate: number): string => {
+  switch (curve.type) {
+    case 'exponential':
+      return `${churnRate}% monthly churn`;
+    case 'cliff':
+      return `${curve.firstMonthChurn}% churn in month 1, then ${churnRate}%/mo`;
+    case 'custom':
+      return `Custom retention (${curve.retention.join('%, ')}%), then ${churnRate}%/mo`;
+  }
+};
+
+export const sameRetention = (
+  a: { churnRate: number; retentionCurve: RetentionCurve },
+  b: { churnRate: number; retentionCurve: RetentionCurve }
+): boolean =>
+  a.churnRate === b.churnRate && JSON.stringify(a.retentionCurve) === JSON.stringify(b.retentionCurve);
@@ -0,0 +1,49 @@
+import { normalizeState } from './state';
+import type { CalculatorState } from './types';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string;
+  state: CalculatorState;
+}
+
+const STORAGE_KEY = 'saas-calculator:scenarios';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+// Reads the saved scenarios from localStorage. Entries are normalized so
+// snapshots saved by older versions of the app still load.
+export const loadLibrary = (): SavedScenario[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .filter((entry) => typeof entry === 'object' && entry !== null && typeof entry.id === 'string')
+      .map((entry) => ({
+        id: entry.id,
+        name: typeof entry.name === 'string' ? entry.name : 'Untitled scenario',
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : '',
+        state: normalizeState(entry.state)
+      }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveLibrary = (scenarios: SavedScenario[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    // Storage can be full or disabled (private browsing); the library then
+    // only lives for the current session.
+  }
+};
+
+export const createSavedScenario = (name: string, state: CalculatorState): SavedScenario => ({
+  id: Date.now().toString(),
+  name: name.trim() || 'Untitled scenario',
+  savedAt: new Date().toISOString(),
+  state
+});
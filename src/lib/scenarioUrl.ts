@@ -0,0 +1,46 @@
+import { normalizeState } from './state';
+import type { CalculatorState } from './types';
+
+// Query parameter that carries the encoded scenario
+export const SCENARIO_PARAM = 's';
+
+// Links look like `?s=1.<base64url JSON>`. Bump the version only when the
+// payload layout changes incompatibly and add a decoder for the new version;
+// new optional fields don't need a bump because normalizeState fills them in.
+const CURRENT_VERSION = 1;
+
+const decoders: Record<number, (payload: unknown) => CalculatorState> = {
+  1: normalizeState
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+export const encodeScenario = (state: CalculatorState): string =>
+  `${CURRENT_VERSION}.${toBase64Url(JSON.stringify(state))}`;
+
+// Returns null for anything that isn't a link we know how to read
+export const decodeScenario = (encoded: string | null): CalculatorState | null => {
+  if (!encoded) return null;
+  const separator = encoded.indexOf('.');
+  if (separator <= 0) return null;
+
+  const decode = decoders[Number(encoded.slice(0, separator))];
+  if (!decode) return null;
+
+  try {
+    return decode(JSON.parse(fromBase64Url(encoded.slice(separator + 1))));
+  } catch {
+    return null;
+  }
+};
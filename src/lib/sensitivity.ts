@@ -0,0 +1,114 @@
+import {
+  scaleAcquisition,
+  scaleCac,
+  scaleChurn,
+  scaleExpansion,
+  scaleInfrastructureCost,
+  scalePrice,
+  scaleSupportCost
+} from './adjustments';
+import { calculateProjections } from './projections';
+import type { ProjectionResult, Scenario } from './types';
+
+export interface SensitivityInput {
+  id: string;
+  label: string;
+  apply: (scenario: Scenario, multiplier: number) => Scenario;
+}
+
+export const SENSITIVITY_INPUTS: SensitivityInput[] = [
+  { id: 'churn', label: 'Churn', apply: scaleChurn },
+  { id: 'cac', label: 'CAC', apply: scaleCac },
+  { id: 'price', label: 'Price', apply: scalePrice },
+  { id: 'acquisition', label: 'Acquisition', apply: scaleAcquisition },
+  { id: 'expansion', label: 'Expansion', apply: scaleExpansion },
+  { id: 'support', label: 'Support cost/user', apply: scaleSupportCost },
+  { id: 'infrastructure', label: 'Infra cost/user', apply: scaleInfrastructureCost }
+];
+
+export type OutputFormat = 'currency' | 'month' | 'ratio';
+
+export interface SensitivityOutput {
+  id: string;
+  // A function when the label names the horizon
+  label: string | ((months: number) => string);
+  format: OutputFormat;
+  value: (result: ProjectionResult, scenario: Scenario) => number;
+}
+
+export const SENSITIVITY_OUTPUTS: SensitivityOutput[] = [
+  {
+    id: 'finalMrr',
+    label: months => `Month ${months} MRR`,
+    format: 'currency',
+    value: result => result.projections[result.projections.length - 1]?.mrr ?? 0
+  },
+  // Never breaking even reads as one month past the horizon, so it still
+  // ranks as the worst outcome
+  {
+    id: 'breakEvenMonth',
+    label: 'Break-even month',
+    format: 'month',
+    value: (result, scenario) => result.metrics.breakEvenMonth > 0 ? result.metrics.breakEvenMonth : scenario.months + 1
+  },
+  { id: 'ltvCacRatio', label: 'LTV:CAC', format: 'ratio', value: result => result.metrics.ltvCacRatio },
+  { id: 'valuation', label: 'Valuation', format: 'currency', value: result => result.metrics.valuation }
+];
+
+export const outputLabel = (output: SensitivityOutput, months: number): string =>
+  typeof output.label === 'string' ? output.label : output.label(months);
+
+export const formatOutput = (value: number, format: OutputFormat, months: number): string => {
+  switch (format) {
+    case 'currency':
+      return `$${Math.round(value).toLocaleString()}`;
+    case 'month':
+      return value > months ? 'Never' : `Month ${value}`;
+    case 'ratio':
+      return `${value.toFixed(1)}:1`;
+  }
+};
+
+const evaluate = (scenario: Scenario, output: SensitivityOutput): number =>
+  output.value(calculateProjections(scenario), scenario);
+
+export interface TornadoBar {
+  inputId: string;
+  label: string;
+  // Output with the input lowered and raised by the flex percentage
+  low: number;
+  high: number;
+}
+
+// One bar per input, widest swing first
+export const tornado = (
+  scenario: Scenario,
+  output: SensitivityOutput,
+  flexPercent: number
+): { base: number; bars: TornadoBar[] } => {
+  const base = evaluate(scenario, output);
+  const bars = SENSITIVITY_INPUTS.map(input => ({
+    inputId: input.id,
+    label: input.label,
+    low: evaluate(input.apply(scenario, 1 - flexPercent / 100), output),
+    high: evaluate(input.apply(scenario, 1 + flexPercent / 100), output)
+  }));
+  bars.sort((a, b) => Math.abs(b.high - b.low) - Math.abs(a.high - a.low));
+  return { base, bars };
+};
+
+// Output for every combination of two inputs flexed by `steps` (percent
+// changes, 0 = as entered). Rows follow `rowInput`, columns `columnInput`.
+export const dataTable = (
+  scenario: Scenario,
+  rowInput: SensitivityInput,
+  columnInput: SensitivityInput,
+  output: SensitivityOutput,
+  steps: number[]
+): number[][] =>
+  steps.map(rowStep => {
+    const rowScenario = rowInput.apply(scenario, 1 + rowStep / 100);
+    return steps.map(columnStep =>
+      evaluate(columnInput.apply(rowScenario, 1 + columnStep / 100), output)
+    );
+  });
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RUN_MONTHS, RUN_OPTIONS, runsFor } from './simulation';
+
+describe('runsFor', () => {
+  it('runs as many as asked while the months fit', () => {
+    expect(runsFor(1000, 24)).toBe(1000);
+  });
+
+  it('caps runs times months on long horizons', () => {
+    expect(runsFor(5000, 120)).toBe(MAX_RUN_MONTHS / 120);
+    expect(runsFor(RUN_OPTIONS[0], 120)).toBe(RUN_OPTIONS[0]);
+  });
+});
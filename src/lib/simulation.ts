@@ -0,0 +1,122 @@
+import { scaleAcquisition, scaleChurn, scaleExpansion } from './adjustments';
+import { isBrokenEven, projectMonths } from './projections';
+import type {
+  Distribution,
+  PercentileBand,
+  Scenario,
+  SimulationResult,
+  UncertaintySettings
+} from './types';
+
+export const DEFAULT_UNCERTAINTY: UncertaintySettings = {
+  runs: 1000,
+  churn: { type: 'normal', spread: 20 },
+  acquisition: { type: 'normal', spread: 20 },
+  planMix: { type: 'normal', spread: 20 },
+  expansion: { type: 'normal', spread: 30 }
+};
+
+export const RUN_OPTIONS = [500, 1000, 2000, 5000];
+
+// Months projected across all runs, about 15 seconds of work. Long horizons
+// get fewer runs than asked for; the smallest option always fits in full.
+export const MAX_RUN_MONTHS = 60000;
+
+export const runsFor = (runs: number, months: number): number =>
+  Math.max(Math.min(Math.round(runs), Math.floor(MAX_RUN_MONTHS / Math.max(months, 1))), 1);
+
+// Fixed seed so the same scenario always produces the same bands
+const SEED = 20240601;
+
+// mulberry32: small, fast and good enough for sampling inputs
+const createRandom = (seed: number) => {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = () => number;
+
+// Standard normal via Box-Muller
+const normal = (random: Random) => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Multiplier applied to an input's entered value, never negative
+const sampleMultiplier = (distribution: Distribution, random: Random): number => {
+  const spread = distribution.spread / 100;
+  const offset = distribution.type === 'normal' ? normal(random) : random() * 2 - 1;
+  return Math.max(1 + spread * offset, 0);
+};
+
+// One possible world: every uncertain input scaled by its own draw
+export const sampleScenario = (scenario: Scenario, random: Random): Scenario => {
+  const { uncertainty } = scenario;
+  let sampled = scaleChurn(scenario, sampleMultiplier(uncertainty.churn, random));
+  sampled = scaleAcquisition(sampled, sampleMultiplier(uncertainty.acquisition, random));
+  sampled = scaleExpansion(sampled, sampleMultiplier(uncertainty.expansion, random));
+  return {
+    ...sampled,
+    plans: sampled.plans.map(plan => ({
+      ...plan,
+      probability: plan.probability * sampleMultiplier(uncertainty.planMix, random)
+    }))
+  };
+};
+
+const percentiles = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(Math.floor(p * sorted.length), sorted.length - 1)] ?? 0;
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+};
+
+// Runs the projection once per sampled scenario and summarizes MRR and
+// cumulative revenue as P10/P50/P90 per month, plus how likely the target
+// and break-even are by each month.
+export const runSimulation = (scenario: Scenario): SimulationResult => {
+  const random = createRandom(SEED);
+  const runs = runsFor(scenario.uncertainty.runs, scenario.months);
+  const mrr = Array.from({ length: scenario.months }, () => new Array<number>(runs));
+  const revenue = Array.from({ length: scenario.months }, () => new Array<number>(runs));
+  const reachedTarget = new Array<number>(scenario.months).fill(0);
+  const brokeEven = new Array<number>(scenario.months).fill(0);
+
+  for (let run = 0; run < runs; run++) {
+    const { projections } = projectMonths(sampleScenario(scenario, random));
+    const targetIndex = projections.findIndex(d => d.mrr >= scenario.targetIncome);
+    const breakEvenIndex = projections.findIndex(isBrokenEven);
+    if (targetIndex >= 0) reachedTarget[targetIndex]++;
+    if (breakEvenIndex >= 0) brokeEven[breakEvenIndex]++;
+    projections.forEach((d, index) => {
+      mrr[index][run] = d.mrr;
+      revenue[index][run] = d.revenue;
+    });
+  }
+
+  const cumulativeShare = (counts: number[]) => {
+    let total = 0;
+    return counts.map(count => (total += count) / runs);
+  };
+
+  return {
+    runs,
+    months: mrr.map((values, index) => ({
+      month: index + 1,
+      mrr: percentiles(values),
+      revenue: percentiles(revenue[index])
+    })),
+    targetByMonth: cumulativeShare(reachedTarget),
+    breakEvenByMonth: cumulativeShare(brokeEven)
+  };
+};
+
+// First month by which at least `share` of the runs got there, or -1
+export const monthReachedBy = (byMonth: number[], share: number): number => {
+  const index = byMonth.findIndex(p => p >= share);
+  return index >= 0 ? index + 1 : -1;
+};
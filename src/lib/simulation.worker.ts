@@ -0,0 +1,9 @@
+import { runSimulation } from './simulation';
+import type { Scenario } from './types';
+
+// Runs the Monte Carlo simulation off the main thread. Each request carries
+// an id so the caller can drop results for inputs that have since changed.
+self.onmessage = (event: MessageEvent<{ id: number; scenario: Scenario }>) => {
+  const { id, scenario } = event.data;
+  self.postMessage({ id, result: runSimulation(scenario) });
+};
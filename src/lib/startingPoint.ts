@@ -0,0 +1,18 @@
+import { actualsStartDate } from './actuals';
+import { currentMonthStart } from './projections';
+import type { CalculatorState, StartingPoint } from './types';
+
+export const DEFAULT_START: StartingPoint = {
+  startDate: null,
+  activeCustomers: 0,
+  customersByPlan: null,
+  mrr: null,
+  cumulativeProfit: 0
+};
+
+// First month of the model as an ISO date: the chosen start, else the first
+// imported actual month, else this month
+export const modelStartDate = (state: CalculatorState): string =>
+  state.start.startDate
+    ? `${state.start.startDate}-01`
+    : actualsStartDate(state.actuals) ?? currentMonthStart();
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STATE, normalizeState } from './state';
+
+describe('normalizeState', () => {
+  it('keeps a valid state as it is', () => {
+    expect(normalizeState(DEFAULT_STATE)).toEqual(DEFAULT_STATE);
+  });
+
+  it('only allows the offered simulation run counts and horizons', () => {
+    const state = normalizeState({ uncertainty: { runs: 1e9 }, horizonMonths: 1e6 });
+    expect(state.uncertainty.runs).toBe(DEFAULT_STATE.uncertainty.runs);
+    expect(state.horizonMonths).toBe(DEFAULT_STATE.horizonMonths);
+  });
+
+  it('keeps percentages within 0-100 and amounts at or above zero', () => {
+    const state = normalizeState({
+      churnRate: 250,
+      expansionRevenue: -5,
+      paymentProcessingRate: 101,
+      cac: -100,
+      customersPerMonth: -20,
+      retentionCurve: { type: 'custom', retention: [120, 80, -10] },
+      plans: [{ id: 'a', name: 'A', price: -10, probability: 500, churnRate: -1, movements: [{ toPlanId: 'b', monthlyRate: 900 }] }],
+      start: { activeCustomers: -50, mrr: -1000 }
+    });
+    expect(state.churnRate).toBe(100);
+    expect(state.expansionRevenue).toBe(0);
+    expect(state.paymentProcessingRate).toBe(100);
+    expect(state.cac).toBe(0);
+    expect(state.customersPerMonth).toBe(0);
+    expect(state.retentionCurve).toEqual({ type: 'custom', retention: [100, 80, 0] });
+    expect(state.plans[0]).toMatchObject({ price: 0, probability: 100, churnRate: 0, movements: [{ toPlanId: 'b', monthlyRate: 100 }] });
+    expect(state.start.activeCustomers).toBe(0);
+    expect(state.start.mrr).toBe(0);
+  });
+});
@@ -0,0 +1,373 @@
+import { DEFAULT_ACQUISITION, DEFAULT_FUNNEL, FLAT_SEASONALITY } from './acquisition';
+import { DEFAULT_ACTUALS } from './actuals';
+import { DEFAULT_FINANCE } from './finance';
+import { PRICE_MIGRATIONS } from './pricing';
+import { DEFAULT_HORIZON, HORIZON_OPTIONS } from './projections';
+import { DEFAULT_UNCERTAINTY, RUN_OPTIONS } from './simulation';
+import { DEFAULT_START } from './startingPoint';
+import { DEFAULT_MULTIPLE_TABLE, DEFAULT_VALUATION } from './valuation';
+import type {
+  AcquisitionSchedule,
+  ActualMonth,
+  ActualsData,
+  AcquisitionStep,
+  CalculatorState,
+  Distribution,
+  FinancePlan,
+  FixedCost,
+  FundingEvent,
+  FunnelSettings,
+  Hire,
+  HireTrigger,
+  MultipleTable,
+  Plan,
+  PlanMovement,
+  PriceChange,
+  RetentionCurve,
+  StartingPoint,
+  UncertaintySettings,
+  ValuationSettings
+} from './types';
+
+export const DEFAULT_STATE: CalculatorState = {
+  targetIncome: 10000,
+  avgMonthlyRevenue: 50,
+  plans: [],
+  churnRate: 10,
+  retentionCurve: { type: 'cliff', firstMonthChurn: 20 },
+  cac: 100,
+  customersPerMonth: null,
+  expansionRevenue: 5,
+  reactivationRate: 0,
+  supportCostPerUser: 2,
+  infrastructureCostPerUser: 3,
+  paymentProcessingRate: 3,
+  thirdPartyCostPerUser: 0,
+  acquisition: DEFAULT_ACQUISITION,
+  uncertainty: DEFAULT_UNCERTAINTY,
+  finance: DEFAULT_FINANCE,
+  valuation: DEFAULT_VALUATION,
+  actuals: DEFAULT_ACTUALS,
+  start: DEFAULT_START,
+  horizonMonths: DEFAULT_HORIZON,
+  fiscalYearStart: 1
+};
+
+type Raw = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const toOptionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Links can be crafted, so values are also kept in range: percentages within
+// 0-100, and counts, prices and costs no lower than zero
+const clampPercent = (value: number) => Math.min(Math.max(value, 0), 100);
+
+const toPercent = (value: unknown, fallback: number): number => clampPercent(toNumber(value, fallback));
+
+const toAmount = (value: unknown, fallback: number): number => Math.max(toNumber(value, fallback), 0);
+
+const toOptionalPercent = (value: unknown): number | undefined => {
+  const number = toOptionalNumber(value);
+  return number === undefined ? undefined : clampPercent(number);
+};
+
+const toOptionalAmount = (value: unknown): number | undefined => {
+  const number = toOptionalNumber(value);
+  return number === undefined ? undefined : Math.max(number, 0);
+};
+
+const toMovement = (value: unknown): PlanMovement | null =>
+  isRecord(value) && typeof value.toPlanId === 'string'
+    ? { toPlanId: value.toPlanId, monthlyRate: toPercent(value.monthlyRate, 0) }
+    : null;
+
+const toPriceChange = (value: unknown, index: number): PriceChange | null => {
+  if (!isRecord(value)) return null;
+  const migration = PRICE_MIGRATIONS.find(m => m.migration === value.migration)?.migration ?? 'grandfather';
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : `price-${index + 1}`,
+    month: toNumber(value.month, 1),
+    price: toAmount(value.price, 0),
+    migration,
+    delayMonths: toAmount(value.delayMonths, 0),
+    churnSpike: toPercent(value.churnSpike, 0)
+  };
+};
+
+const toPlan = (value: unknown, index: number): Plan | null => {
+  if (!isRecord(value)) return null;
+  const plan: Plan = {
+    id: typeof value.id === 'string' && value.id ? value.id : `plan-${index + 1}`,
+    name: typeof value.name === 'string' ? value.name : '',
+    price: toAmount(value.price, 0),
+    probability: toPercent(value.probability, 0)
+  };
+  // Optional overrides are only set when present, so they keep falling back
+  // to the scenario-wide values
+  const churnRate = toOptionalPercent(value.churnRate);
+  const cac = toOptionalAmount(value.cac);
+  const expansionRate = toOptionalPercent(value.expansionRate);
+  if (churnRate !== undefined) plan.churnRate = churnRate;
+  if (cac !== undefined) plan.cac = cac;
+  if (expansionRate !== undefined) plan.expansionRate = expansionRate;
+  const billingTermMonths = toOptionalAmount(value.billingTermMonths);
+  const prepayDiscount = toOptionalPercent(value.prepayDiscount);
+  if (billingTermMonths !== undefined) plan.billingTermMonths = billingTermMonths;
+  if (prepayDiscount !== undefined) plan.prepayDiscount = prepayDiscount;
+  if (Array.isArray(value.movements)) {
+    plan.movements = value.movements.map(toMovement).filter((m): m is PlanMovement => m !== null);
+  }
+  if (Array.isArray(value.priceChanges)) {
+    plan.priceChanges = value.priceChanges.map(toPriceChange).filter((c): c is PriceChange => c !== null);
+  }
+  return plan;
+};
+
+// State saved before retention curves existed used the same churn rate for
+// every month of a customer's life, so that is what a missing curve means.
+const toRetentionCurve = (value: unknown): RetentionCurve => {
+  if (isRecord(value)) {
+    if (value.type === 'cliff') {
+      return { type: 'cliff', firstMonthChurn: toPercent(value.firstMonthChurn, 0) };
+    }
+    if (value.type === 'custom' && Array.isArray(value.retention)) {
+      return {
+        type: 'custom',
+        retention: value.retention
+          .filter((r): r is number => typeof r === 'number' && Number.isFinite(r))
+          .map(clampPercent)
+      };
+    }
+  }
+  return { type: 'exponential' };
+};
+
+const toStep = (value: unknown): AcquisitionStep | null =>
+  isRecord(value) && typeof value.month === 'number' && typeof value.value === 'number'
+    ? { month: value.month, value: Math.max(value.value, 0) }
+    : null;
+
+const toFunnel = (value: unknown): FunnelSettings => {
+  if (!isRecord(value)) return DEFAULT_FUNNEL;
+  return {
+    visitors: toAmount(value.visitors, DEFAULT_FUNNEL.visitors),
+    signupRate: toPercent(value.signupRate, DEFAULT_FUNNEL.signupRate),
+    trialRate: toPercent(value.trialRate, DEFAULT_FUNNEL.trialRate),
+    paidRate: toPercent(value.paidRate, DEFAULT_FUNNEL.paidRate),
+    trialDays: toAmount(value.trialDays, DEFAULT_FUNNEL.trialDays),
+    costPerVisitor: toAmount(value.costPerVisitor, DEFAULT_FUNNEL.costPerVisitor),
+    freeUserCost: toAmount(value.freeUserCost, DEFAULT_FUNNEL.freeUserCost),
+    freeUserChurn: toPercent(value.freeUserChurn, DEFAULT_FUNNEL.freeUserChurn)
+  };
+};
+
+// Without a schedule, acquisition is the constant customers-per-month input
+const toAcquisition = (value: unknown): AcquisitionSchedule => {
+  if (!isRecord(value)) return DEFAULT_ACQUISITION;
+  const seasonality = Array.isArray(value.seasonality) && value.seasonality.length === 12
+    ? value.seasonality.map(m => toAmount(m, 1))
+    : FLAT_SEASONALITY;
+  return {
+    mode: value.mode === 'budget' || value.mode === 'funnel' ? value.mode : 'volume',
+    marketingBudget: toAmount(value.marketingBudget, DEFAULT_ACQUISITION.marketingBudget),
+    funnel: toFunnel(value.funnel),
+    // Acquisition can shrink, but not below nothing
+    monthlyGrowth: Math.max(toNumber(value.monthlyGrowth, DEFAULT_ACQUISITION.monthlyGrowth), -100),
+    seasonality,
+    steps: Array.isArray(value.steps)
+      ? value.steps.map(toStep).filter((s): s is AcquisitionStep => s !== null)
+      : []
+  };
+};
+
+const toDistribution = (value: unknown, fallback: Distribution): Distribution =>
+  isRecord(value)
+    ? { type: value.type === 'uniform' ? 'uniform' : 'normal', spread: toPercent(value.spread, fallback.spread) }
+    : fallback;
+
+const toUncertainty = (value: unknown): UncertaintySettings => {
+  if (!isRecord(value)) return DEFAULT_UNCERTAINTY;
+  // Each run holds a whole projection, so only the offered counts are allowed
+  const runs = toNumber(value.runs, DEFAULT_UNCERTAINTY.runs);
+  return {
+    runs: RUN_OPTIONS.includes(runs) ? runs : DEFAULT_UNCERTAINTY.runs,
+    churn: toDistribution(value.churn, DEFAULT_UNCERTAINTY.churn),
+    acquisition: toDistribution(value.acquisition, DEFAULT_UNCERTAINTY.acquisition),
+    planMix: toDistribution(value.planMix, DEFAULT_UNCERTAINTY.planMix),
+    expansion: toDistribution(value.expansion, DEFAULT_UNCERTAINTY.expansion)
+  };
+};
+
+const toId = (value: unknown, prefix: string, index: number): string =>
+  typeof value === 'string' && value ? value : `${prefix}-${index + 1}`;
+
+const toFixedCost = (value: unknown, index: number): FixedCost | null =>
+  isRecord(value)
+    ? {
+      id: toId(value.id, 'cost', index),
+      name: typeof value.name === 'string' ? value.name : '',
+      monthlyAmount: toAmount(value.monthlyAmount, 0),
+      startMonth: toNumber(value.startMonth, 1),
+      annualGrowth: toNumber(value.annualGrowth, 0)
+    }
+    : null;
+
+const toHireTrigger = (value: unknown): HireTrigger => {
+  if (isRecord(value)) {
+    if (value.type === 'customers') return { type: 'customers', activeCustomers: toAmount(value.activeCustomers, 0) };
+    if (value.type === 'mrr') return { type: 'mrr', mrr: toAmount(value.mrr, 0) };
+    if (value.type === 'month') return { type: 'month', month: toNumber(value.month, 1) };
+  }
+  return { type: 'month', month: 1 };
+};
+
+const toHire = (value: unknown, index: number): Hire | null =>
+  isRecord(value)
+    ? {
+      id: toId(value.id, 'hire', index),
+      role: typeof value.role === 'string' ? value.role : '',
+      monthlySalary: toAmount(value.monthlySalary, 0),
+      trigger: toHireTrigger(value.trigger)
+    }
+    : null;
+
+const toFundingEvent = (value: unknown, index: number): FundingEvent | null =>
+  isRecord(value)
+    ? {
+      id: toId(value.id, 'funding', index),
+      label: typeof value.label === 'string' ? value.label : '',
+      month: toNumber(value.month, 1),
+      amount: toAmount(value.amount, 0)
+    }
+    : null;
+
+const toList = <T>(value: unknown, convert: (item: unknown, index: number) => T | null): T[] =>
+  Array.isArray(value) ? value.map(convert).filter((item): item is T => item !== null) : [];
+
+const toFinance = (value: unknown): FinancePlan => {
+  if (!isRecord(value)) return DEFAULT_FINANCE;
+  return {
+    startingCash: toNumber(value.startingCash, DEFAULT_FINANCE.startingCash),
+    fixedCosts: toList(value.fixedCosts, toFixedCost),
+    hires: toList(value.hires, toHire),
+    fundingEvents: toList(value.fundingEvents, toFundingEvent)
+  };
+};
+
+const toNumberList = (value: unknown): number[] | null =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'number' && Number.isFinite(v))
+    ? value as number[]
+    : null;
+
+// The grid must match its thresholds, one row per growth tier and one
+// column per NRR tier
+const toMultipleTable = (value: unknown): MultipleTable => {
+  if (!isRecord(value)) return DEFAULT_MULTIPLE_TABLE;
+  const growthThresholds = toNumberList(value.growthThresholds);
+  const nrrThresholds = toNumberList(value.nrrThresholds);
+  const multiples = Array.isArray(value.multiples) ? value.multiples.map(toNumberList) : [];
+  if (
+    !growthThresholds || !nrrThresholds ||
+    multiples.length !== growthThresholds.length ||
+    multiples.some(row => row?.length !== nrrThresholds.length)
+  ) {
+    return DEFAULT_MULTIPLE_TABLE;
+  }
+  return { growthThresholds, nrrThresholds, multiples: multiples as number[][] };
+};
+
+const toValuation = (value: unknown): ValuationSettings => {
+  if (!isRecord(value)) return DEFAULT_VALUATION;
+  return {
+    arrMultiples: toMultipleTable(value.arrMultiples),
+    discountRate: toNumber(value.discountRate, DEFAULT_VALUATION.discountRate),
+    terminalGrowth: toNumber(value.terminalGrowth, DEFAULT_VALUATION.terminalGrowth),
+    revenueMultipleLow: toAmount(value.revenueMultipleLow, DEFAULT_VALUATION.revenueMultipleLow),
+    revenueMultipleHigh: toAmount(value.revenueMultipleHigh, DEFAULT_VALUATION.revenueMultipleHigh)
+  };
+};
+
+const ACTUAL_FIELDS = ['mrr', 'newCustomers', 'churnedCustomers', 'activeCustomers', 'expansionRevenue', 'costs'] as const;
+
+const toActualMonth = (value: unknown): ActualMonth | null => {
+  if (!isRecord(value) || typeof value.date !== 'string' || !/^\d{4}-\d{2}$/.test(value.date)) return null;
+  const month: ActualMonth = { date: value.date };
+  ACTUAL_FIELDS.forEach(field => {
+    const number = value[field];
+    if (typeof number === 'number' && Number.isFinite(number)) month[field] = Math.max(number, 0);
+  });
+  return month;
+};
+
+const toActuals = (value: unknown): ActualsData => {
+  if (!isRecord(value)) return DEFAULT_ACTUALS;
+  return {
+    months: toList(value.months, toActualMonth),
+    continueFromActuals: value.continueFromActuals === true
+  };
+};
+
+const toCustomersByPlan = (value: unknown): Record<string, number> | null => {
+  if (!isRecord(value)) return null;
+  const counts: Record<string, number> = {};
+  Object.entries(value).forEach(([planId, count]) => {
+    if (typeof count === 'number' && Number.isFinite(count)) counts[planId] = Math.max(count, 0);
+  });
+  return counts;
+};
+
+const toStart = (value: unknown): StartingPoint => {
+  if (!isRecord(value)) return DEFAULT_START;
+  return {
+    startDate: typeof value.startDate === 'string' && /^\d{4}-\d{2}$/.test(value.startDate) ? value.startDate : null,
+    activeCustomers: toAmount(value.activeCustomers, 0),
+    customersByPlan: toCustomersByPlan(value.customersByPlan),
+    mrr: toOptionalAmount(value.mrr) ?? null,
+    cumulativeProfit: toNumber(value.cumulativeProfit, 0)
+  };
+};
+
+// Builds a complete CalculatorState from untrusted input (a decoded URL,
+// localStorage, ...). Missing or malformed fields fall back to the defaults,
+// so state saved before a field existed still loads.
+export const normalizeState = (raw: unknown): CalculatorState => {
+  const source = isRecord(raw) ? raw : {};
+  const plans = Array.isArray(source.plans)
+    ? source.plans.map(toPlan).filter((p): p is Plan => p !== null)
+    : DEFAULT_STATE.plans;
+  const horizonMonths = toNumber(source.horizonMonths, DEFAULT_HORIZON);
+  const fiscalYearStart = toNumber(source.fiscalYearStart, 1);
+
+  return {
+    targetIncome: toAmount(source.targetIncome, DEFAULT_STATE.targetIncome),
+    avgMonthlyRevenue: toAmount(source.avgMonthlyRevenue, DEFAULT_STATE.avgMonthlyRevenue),
+    plans,
+    churnRate: toPercent(source.churnRate, DEFAULT_STATE.churnRate),
+    retentionCurve: toRetentionCurve(source.retentionCurve),
+    cac: toAmount(source.cac, DEFAULT_STATE.cac),
+    customersPerMonth: source.customersPerMonth === null
+      ? null
+      : toOptionalAmount(source.customersPerMonth) ?? DEFAULT_STATE.customersPerMonth,
+    expansionRevenue: toPercent(source.expansionRevenue, DEFAULT_STATE.expansionRevenue),
+    reactivationRate: toPercent(source.reactivationRate, DEFAULT_STATE.reactivationRate),
+    supportCostPerUser: toAmount(source.supportCostPerUser, DEFAULT_STATE.supportCostPerUser),
+    infrastructureCostPerUser: toAmount(source.infrastructureCostPerUser, DEFAULT_STATE.infrastructureCostPerUser),
+    // Links from before these costs existed modelled neither
+    paymentProcessingRate: toPercent(source.paymentProcessingRate, 0),
+    thirdPartyCostPerUser: toAmount(source.thirdPartyCostPerUser, 0),
+    acquisition: toAcquisition(source.acquisition),
+    uncertainty: toUncertainty(source.uncertainty),
+    finance: toFinance(source.finance),
+    valuation: toValuation(source.valuation),
+    actuals: toActuals(source.actuals),
+    start: toStart(source.start),
+    horizonMonths: HORIZON_OPTIONS.includes(horizonMonths) ? horizonMonths : DEFAULT_HORIZON,
+    fiscalYearStart: Number.isInteger(fiscalYearStart) && fiscalYearStart >= 1 && fiscalYearStart <= 12 ? fiscalYearStart : 1
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { deriveStripeModel, parseStripeSubscriptions } from './stripe';
+
+const HEADER = 'id,Customer ID,Plan,Amount,Interval,Status,Start (UTC),Ended At (UTC),Canceled At (UTC),Current Period End (UTC)';
+
+const parse = (...rows: string[]) => {
+  const parsed = parseStripeSubscriptions([HEADER, ...rows].join('\n'));
+  if (!parsed.ok) throw new Error(parsed.error);
+  return parsed;
+};
+
+describe('parseStripeSubscriptions', () => {
+  it('ends canceled subscriptions at their cancellation or period end', () => {
+    const { rows, warnings } = parse(
+      'sub_1,cus_1,Pro,50,month,canceled,2025-01-05,,2025-03-10,2025-04-05',
+      'sub_2,cus_2,Pro,50,month,canceled,2025-01-05,,,2025-04-05',
+      'sub_3,cus_3,Pro,50,month,active,2025-01-05,,2025-03-10,2025-04-05'
+    );
+    expect(rows.map(r => r.endMonth)).toEqual(['2025-03', '2025-04', null]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('leaves out canceled subscriptions with no date and says so', () => {
+    const { rows, warnings } = parse(
+      'sub_1,cus_1,Pro,50,month,canceled,2025-01-05,,,',
+      'sub_2,cus_2,Pro,50,month,active,2025-01-05,,,'
+    );
+    expect(rows.map(r => r.customerId)).toEqual(['cus_2']);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('reads the preferred column when several aliases are present', () => {
+    const parsed = parseStripeSubscriptions([
+      'id,Customer ID,Price,Product Name,Amount,Created (UTC),Start (UTC)',
+      'sub_1,cus_1,price_123,Pro,50,2024-11-20,2025-01-05'
+    ].join('\n'));
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(parsed.rows.map(r => [r.plan, r.startMonth])).toEqual([['Pro', '2025-01']]);
+  });
+});
+
+describe('deriveStripeModel', () => {
+  // cus_1 has two subscriptions; cus_2 churns in March
+  const { rows } = parse(
+    'sub_1,cus_1,Basic,20,month,active,2025-01-05,,,',
+    'sub_2,cus_1,Pro,50,month,active,2025-02-05,,,',
+    'sub_3,cus_2,Basic,20,month,canceled,2025-01-05,2025-03-05,,',
+    'sub_4,cus_3,Pro,50,month,active,2025-03-05,,,'
+  );
+  const model = deriveStripeModel(rows, null, '2025-03');
+
+  it('counts customers rather than subscriptions', () => {
+    expect(model.history.map(m => m.activeCustomers)).toEqual([2, 2, 2]);
+    expect(model.history.map(m => m.newCustomers)).toEqual([2, 0, 1]);
+    expect(model.history.map(m => m.churnedCustomers)).toEqual([0, 0, 1]);
+    expect(model.history.map(m => m.mrr)).toEqual([40, 90, 120]);
+    expect(model.currentCustomers).toBe(2);
+    expect(model.arpu).toBe(60);
+  });
+
+  it('puts each customer on the plan of their largest subscription', () => {
+    const ids = Object.fromEntries(model.plans.map(plan => [plan.name, plan.id]));
+    expect(model.activeByPlan).toEqual({ [ids.Basic]: 0, [ids.Pro]: 2 });
+  });
+});
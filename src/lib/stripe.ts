@@ -0,0 +1,289 @@
+import { applyFit, DEFAULT_ACTUALS, fitActuals } from './actuals';
+import { normalizeHeader, parseAmount, parseCsv, parseMonth } from './csv';
+import { monthLabel } from './projections';
+import type { ActualMonth, CalculatorState, Plan } from './types';
+
+// Reads the CSV exports from the Stripe dashboard (Billing → Subscriptions
+// and Invoices → Export). Nothing is fetched: everything is derived from the
+// files.
+
+export interface StripeSubscription {
+  customerId: string;
+  plan: string;
+  // Price per billing interval, times quantity
+  amount: number;
+  intervalMonths: number;
+  // "YYYY-MM"
+  startMonth: string;
+  endMonth: string | null;
+}
+
+export interface StripeInvoice {
+  customerId: string;
+  month: string;
+  // Amount paid spread over the months the invoice covers
+  monthlyAmount: number;
+}
+
+// Warnings describe rows that were left out
+type ParseResult<T> = { ok: true; rows: T[]; warnings: string[] } | { ok: false; error: string };
+
+// Customers are counted by customer ID, so one with several subscriptions
+// counts once; MRR adds up all of their subscriptions.
+
+// Statuses of subscriptions that never became paying customers
+const NOT_STARTED = ['trialing', 'incomplete', 'incomplete_expired'];
+
+const INTERVAL_MONTHS: Record<string, number> = { day: 1 / 30, week: 12 / 52, month: 1, year: 12 };
+
+// Finds the header for the first alias present, so aliases are listed most
+// preferred first, and returns a reader for it
+const columns = (header: string[]) => {
+  const headers = header.map(normalizeHeader);
+  return (...aliases: string[]) => {
+    const index = aliases.map(alias => headers.indexOf(alias)).find(i => i >= 0) ?? -1;
+    return index < 0 ? null : (row: string[]) => row[index]?.trim() ?? '';
+  };
+};
+
+export const parseStripeSubscriptions = (text: string): ParseResult<StripeSubscription> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { ok: false, error: 'The subscriptions file is empty.' };
+  const column = columns(header);
+  const customer = column('customer id', 'customer');
+  // Names before the plain columns, which newer exports fill with IDs
+  const plan = column('product name', 'plan name', 'plan nickname', 'plan', 'product', 'price');
+  const amount = column('amount', 'plan amount', 'price amount');
+  const quantity = column('quantity');
+  const interval = column('interval', 'plan interval');
+  const intervalCount = column('interval count', 'plan interval count');
+  const status = column('status');
+  const start = column('start utc', 'start date utc', 'created utc', 'start', 'created');
+  const ended = column('ended at utc', 'ended at');
+  const canceled = column('canceled at utc', 'canceled at');
+  const periodEnd = column('current period end utc', 'current period end');
+  if (!customer || !amount || !start) {
+    return { ok: false, error: 'This does not look like a Stripe subscriptions export (expected Customer ID, Amount and Start columns).' };
+  }
+
+  const monthIn = (read: ((row: string[]) => string) | null, row: string[]) => read ? parseMonth(read(row)) : null;
+
+  const subscriptions: StripeSubscription[] = [];
+  let undated = 0;
+  rows.forEach((row, index) => {
+    const state = status?.(row).toLowerCase() ?? null;
+    if (state !== null && NOT_STARTED.includes(state)) return;
+    const startMonth = parseMonth(start(row));
+    const price = parseAmount(amount(row));
+    if (!startMonth || price === null) return;
+    // A canceled subscription without an end date ended when it was canceled,
+    // or failing that at the end of its last paid period. A cancellation date
+    // on a live one is only a cancellation scheduled for its period end.
+    const isCanceled = state === 'canceled';
+    let endMonth = monthIn(ended, row);
+    if (!endMonth && (isCanceled || state === null)) endMonth = monthIn(canceled, row);
+    if (!endMonth && isCanceled) endMonth = monthIn(periodEnd, row);
+    if (isCanceled && !endMonth) {
+      undated++;
+      return;
+    }
+    const intervalMonths = (INTERVAL_MONTHS[interval?.(row).toLowerCase() ?? 'month'] ?? 1) *
+      (parseAmount(intervalCount?.(row)) ?? 1);
+    subscriptions.push({
+      // A subscription without a customer is a customer of its own
+      customerId: customer(row) || `row-${index + 1}`,
+      plan: plan?.(row) || 'Subscription',
+      amount: price * (parseAmount(quantity?.(row)) ?? 1),
+      intervalMonths,
+      startMonth,
+      endMonth
+    });
+  });
+  if (subscriptions.length === 0) return { ok: false, error: 'No paying subscriptions found in the file.' };
+  const warnings = undated > 0
+    ? [`${undated} canceled subscription${undated === 1 ? '' : 's'} with no end, cancellation or period end date ${undated === 1 ? 'was' : 'were'} left out.`]
+    : [];
+  return { ok: true, rows: subscriptions, warnings };
+};
+
+export const parseStripeInvoices = (text: string): ParseResult<StripeInvoice> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { ok: false, error: 'The invoices file is empty.' };
+  const column = columns(header);
+  const customer = column('customer', 'customer id');
+  const amount = column('amount paid', 'total', 'amount due');
+  const status = column('status');
+  const periodStart = column('period start utc', 'period start', 'date utc', 'date', 'created utc');
+  const periodEnd = column('period end utc', 'period end');
+  if (!customer || !amount || !periodStart) {
+    return { ok: false, error: 'This does not look like a Stripe invoices export (expected Customer, Amount Paid and Date columns).' };
+  }
+
+  const monthsBetween = (from: string, to: string) => {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  };
+
+  const invoices: StripeInvoice[] = [];
+  for (const row of rows) {
+    if (status && status(row).toLowerCase() !== 'paid') continue;
+    const month = parseMonth(periodStart(row));
+    const paid = parseAmount(amount(row));
+    if (!month || paid === null || paid <= 0) continue;
+    const end = periodEnd ? parseMonth(periodEnd(row)) : null;
+    const covered = end ? Math.max(monthsBetween(month, end), 1) : 1;
+    invoices.push({ customerId: customer(row), month, monthlyAmount: paid / covered });
+  }
+  return { ok: true, rows: invoices, warnings: [] };
+};
+
+export interface StripeModel {
+  plans: Plan[];
+  // Active customers per plan id today, each on the plan of their largest
+  // subscription
+  activeByPlan: Record<string, number>;
+  currentCustomers: number;
+  currentMrr: number;
+  arpu: number;
+  churnRate: number | null;
+  customersPerMonth: number | null;
+  expansionRate: number | null;
+  // Monthly history rebuilt from the subscriptions, oldest first
+  history: ActualMonth[];
+}
+
+// Months in which recent acquisition mix and churn are measured
+const LOOKBACK_MONTHS = 12;
+
+const monthlyAmount = (subscription: StripeSubscription) => subscription.amount / subscription.intervalMonths;
+
+const activeIn = (subscription: StripeSubscription, month: string) =>
+  subscription.startMonth <= month && (subscription.endMonth === null || subscription.endMonth > month);
+
+// Average month-on-month increase in what continuing customers pay, as a
+// percentage of what they paid the month before
+const expansionFromInvoices = (invoices: StripeInvoice[]): number | null => {
+  const byCustomerMonth = new Map<string, number>();
+  invoices.forEach(invoice => {
+    const key = `${invoice.customerId}|${invoice.month}`;
+    byCustomerMonth.set(key, (byCustomerMonth.get(key) ?? 0) + invoice.monthlyAmount);
+  });
+
+  let increase = 0;
+  let base = 0;
+  byCustomerMonth.forEach((amount, key) => {
+    const [customerId, month] = key.split('|');
+    const previous = byCustomerMonth.get(`${customerId}|${monthLabel(`${month}-01`, -1)}`);
+    if (previous === undefined) return;
+    increase += Math.max(amount - previous, 0);
+    base += previous;
+  });
+  return base > 0 ? (increase / base) * 100 : null;
+};
+
+export const deriveStripeModel = (
+  subscriptions: StripeSubscription[],
+  invoices: StripeInvoice[] | null,
+  // "YYYY-MM" of the latest month to include, normally this month
+  currentMonth: string
+): StripeModel => {
+  // One plan per product and billing interval
+  const planKey = (s: StripeSubscription) => `${s.plan}|${s.intervalMonths}`;
+  const groups = new Map<string, StripeSubscription[]>();
+  subscriptions.forEach(s => groups.set(planKey(s), [...(groups.get(planKey(s)) ?? []), s]));
+
+  const planIds = new Map([...groups.keys()].map((key, index) => [key, `stripe-${index + 1}`]));
+
+  // Today's customers, each on the plan of their largest active subscription
+  const activeByPlan: Record<string, number> = Object.fromEntries([...planIds.values()].map(id => [id, 0]));
+  const largestActive = new Map<string, StripeSubscription>();
+  subscriptions.filter(s => activeIn(s, currentMonth)).forEach(s => {
+    const largest = largestActive.get(s.customerId);
+    if (!largest || monthlyAmount(s) > monthlyAmount(largest)) largestActive.set(s.customerId, s);
+  });
+  largestActive.forEach(s => activeByPlan[planIds.get(planKey(s))!]++);
+
+  const recentFrom = monthLabel(`${currentMonth}-01`, -(LOOKBACK_MONTHS - 1));
+  const plans: Plan[] = [];
+  [...groups.entries()].forEach(([key, group]) => {
+    const id = planIds.get(key)!;
+    const termMonths = Math.round(group[0].intervalMonths);
+    // Price is the most common amount among the plan's subscriptions
+    const counts = new Map<number, number>();
+    group.forEach(s => counts.set(monthlyAmount(s), (counts.get(monthlyAmount(s)) ?? 0) + 1));
+    const price = [...counts].sort((a, b) => b[1] - a[1])[0][0];
+    const intervalLabel = termMonths === 12 ? ' (annual)' : termMonths > 1 ? ` (${termMonths}-month)` : '';
+
+    plans.push({
+      id,
+      name: `${group[0].plan}${intervalLabel}`,
+      price: Math.round(price * 100) / 100,
+      // Mix of recent sign-ups, or of the current base when there are none
+      probability: new Set(group.filter(s => s.startMonth >= recentFrom).map(s => s.customerId)).size || activeByPlan[id],
+      ...(termMonths > 1 && { billingTermMonths: termMonths })
+    });
+  });
+  const totalMix = plans.reduce((sum, p) => sum + p.probability, 0);
+  plans.forEach(plan => {
+    plan.probability = totalMix > 0 ? Math.round((plan.probability / totalMix) * 100) : 0;
+  });
+
+  const firstMonth = subscriptions.reduce((first, s) => s.startMonth < first ? s.startMonth : first, currentMonth);
+  // A customer is new in a month they pay in after not paying the month
+  // before, and churned in a month they stop paying
+  const history: ActualMonth[] = [];
+  let previousCustomers = new Set<string>();
+  for (let offset = 0; ; offset++) {
+    const month = monthLabel(`${firstMonth}-01`, offset);
+    if (month > currentMonth) break;
+    const active = subscriptions.filter(s => activeIn(s, month));
+    const customers = new Set(active.map(s => s.customerId));
+    history.push({
+      date: month,
+      mrr: Math.round(active.reduce((sum, s) => sum + monthlyAmount(s), 0)),
+      newCustomers: [...customers].filter(id => !previousCustomers.has(id)).length,
+      churnedCustomers: [...previousCustomers].filter(id => !customers.has(id)).length,
+      activeCustomers: customers.size
+    });
+    previousCustomers = customers;
+  }
+
+  const latest = history[history.length - 1];
+  const fit = fitActuals(history.slice(-(LOOKBACK_MONTHS + 1)));
+  const currentCustomers = latest?.activeCustomers ?? 0;
+  const currentMrr = latest?.mrr ?? 0;
+
+  return {
+    plans,
+    activeByPlan,
+    currentCustomers,
+    currentMrr,
+    arpu: currentCustomers > 0 ? currentMrr / currentCustomers : 0,
+    churnRate: fit.churnRate,
+    customersPerMonth: fit.customersPerMonth,
+    expansionRate: invoices ? expansionFromInvoices(invoices) : null,
+    history
+  };
+};
+
+// Seeds the inputs from the import: the plan catalogue and mix, fitted churn,
+// acquisition and expansion, and today's subscribers and MRR as the starting
+// point of a forecast that begins next month
+export const applyStripeModel = (state: CalculatorState, model: StripeModel): CalculatorState =>
+  applyFit(
+    {
+      ...state,
+      plans: model.plans,
+      avgMonthlyRevenue: Math.round(model.arpu * 100) / 100,
+      actuals: DEFAULT_ACTUALS,
+      start: {
+        ...state.start,
+        startDate: monthLabel(`${model.history[model.history.length - 1].date}-01`, 1),
+        activeCustomers: model.currentCustomers,
+        customersByPlan: model.activeByPlan,
+        mrr: model.currentMrr
+      }
+    },
+    { churnRate: model.churnRate, customersPerMonth: model.customersPerMonth, expansionRate: model.expansionRate }
+  );
@@ -0,0 +1,397 @@
+// Types
+
+// Share of a plan's active customers that switch to another plan each month
+export interface PlanMovement {
+  toPlanId: string;
+  monthlyRate: number;
+}
+
+// The optional fields override the scenario-wide churn rate, CAC and
+// expansion rate for customers on this plan.
+export interface Plan {
+  id: string;
+  name: string;
+  price: number;
+  probability: number;
+  churnRate?: number;
+  cac?: number;
+  expansionRate?: number;
+  movements?: PlanMovement[];
+  // Months paid up front per invoice (1 = monthly, 12 = annual, ...)
+  billingTermMonths?: number;
+  // Percentage off `price` for customers on a prepaid term
+  prepayDiscount?: number;
+  priceChanges?: PriceChange[];
+}
+
+// What happens to a plan's existing customers when its price changes: they
+// keep the price they signed up at, move to the new one straight away, or
+// move after a notice period
+export type PriceMigration = 'grandfather' | 'immediate' | 'delayed';
+
+// From `month` on, new customers on the plan pay `price` (before any prepay
+// discount). `churnSpike` is the percentage of migrated customers who cancel
+// rather than pay the new price.
+export interface PriceChange {
+  id: string;
+  month: number;
+  price: number;
+  migration: PriceMigration;
+  // Months after `month` that a delayed migration happens
+  delayMonths: number;
+  churnSpike: number;
+}
+
+// Shape of churn over a customer's life. `churnRate` on the state is the
+// steady monthly churn the curve settles into.
+export type RetentionCurve =
+  | { type: 'exponential' }
+  | { type: 'cliff'; firstMonthChurn: number }
+  // Percentage of a cohort still active at the end of months 1..n
+  | { type: 'custom'; retention: number[] };
+
+// From `month` on the schedule's level (customers or spend per month) is
+// `value`, and growth compounds again from there.
+export interface AcquisitionStep {
+  month: number;
+  value: number;
+}
+
+// Visitors to paying customers, stage by stage. Rates are the percentage of
+// each stage that reaches the next; signups who never pay stay on as free
+// users until they drift away.
+export interface FunnelSettings {
+  visitors: number;
+  signupRate: number;
+  trialRate: number;
+  paidRate: number;
+  // Days from starting a trial to the first payment
+  trialDays: number;
+  // Marketing spend behind each visitor
+  costPerVisitor: number;
+  // Monthly cost of serving one free or trialling user
+  freeUserCost: number;
+  // Percentage of free users going inactive each month
+  freeUserChurn: number;
+}
+
+// How new customers arrive over time. In volume mode the level is
+// `customersPerMonth` (or the auto value); in budget mode it is the monthly
+// marketing spend, which buys customers at the blended CAC; in funnel mode it
+// is monthly visitors, converted through the funnel.
+export interface AcquisitionSchedule {
+  mode: 'volume' | 'budget' | 'funnel';
+  marketingBudget: number;
+  funnel: FunnelSettings;
+  // Month-over-month growth of the level, in percent
+  monthlyGrowth: number;
+  // Multiplier per calendar month, January first
+  seasonality: number[];
+  steps: AcquisitionStep[];
+}
+
+// Spread of an uncertain input around its entered value, in percent of it:
+// the standard deviation for a normal draw, the ± range for a uniform one.
+export interface Distribution {
+  type: 'normal' | 'uniform';
+  spread: number;
+}
+
+// Distributions sampled once per run by the Monte Carlo simulation
+export interface UncertaintySettings {
+  runs: number;
+  churn: Distribution;
+  acquisition: Distribution;
+  // Applied independently to each plan's probability
+  planMix: Distribution;
+  expansion: Distribution;
+}
+
+// A recurring cost that does not scale with customers (rent, tooling,
+// founder pay...). It runs from `startMonth` on and grows by `annualGrowth`
+// percent a year.
+export interface FixedCost {
+  id: string;
+  name: string;
+  monthlyAmount: number;
+  startMonth: number;
+  annualGrowth: number;
+}
+
+// A hire joins payroll in the first month the trigger is met and stays
+export type HireTrigger =
+  | { type: 'month'; month: number }
+  | { type: 'customers'; activeCustomers: number }
+  | { type: 'mrr'; mrr: number };
+
+export interface Hire {
+  id: string;
+  role: string;
+  monthlySalary: number;
+  trigger: HireTrigger;
+}
+
+export interface FundingEvent {
+  id: string;
+  label: string;
+  month: number;
+  amount: number;
+}
+
+export interface FinancePlan {
+  startingCash: number;
+  fixedCosts: FixedCost[];
+  hires: Hire[];
+  fundingEvents: FundingEvent[];
+}
+
+// ARR multiple by growth and NRR: multiples[i][j] applies from
+// growthThresholds[i] (YoY MRR growth, %) and nrrThresholds[j] (%) up.
+export interface MultipleTable {
+  growthThresholds: number[];
+  nrrThresholds: number[];
+  multiples: number[][];
+}
+
+export interface ValuationSettings {
+  arrMultiples: MultipleTable;
+  // Annual rates, in percent
+  discountRate: number;
+  terminalGrowth: number;
+  // Range applied to trailing-12-month revenue
+  revenueMultipleLow: number;
+  revenueMultipleHigh: number;
+}
+
+// One month of real results. Columns missing from the import are left out.
+export interface ActualMonth {
+  // "YYYY-MM"
+  date: string;
+  mrr?: number;
+  newCustomers?: number;
+  churnedCustomers?: number;
+  // Customers at the end of the month
+  activeCustomers?: number;
+  expansionRevenue?: number;
+  costs?: number;
+}
+
+export interface ActualsData {
+  months: ActualMonth[];
+  // Drive the projection with the actual customers and MRR up to the latest
+  // real month, so the forecast continues from there
+  continueFromActuals: boolean;
+}
+
+// Where the business stands when the model starts. With no customers it
+// starts from zero, as a new product would.
+export interface StartingPoint {
+  // "YYYY-MM"; null starts at the first imported actual month, or this month
+  startDate: string | null;
+  activeCustomers: number;
+  // activeCustomers split by plan id; null spreads them by the plan mix
+  customersByPlan: Record<string, number> | null;
+  // MRR of the existing base; null prices it at the plans' list prices
+  mrr: number | null;
+  // Profit (or loss) made before the start
+  cumulativeProfit: number;
+}
+
+export interface CalculatorState {
+  targetIncome: number;
+  avgMonthlyRevenue: number;
+  plans: Plan[];
+  churnRate: number;
+  retentionCurve: RetentionCurve;
+  cac: number;
+  expansionRevenue: number;
+  // Percentage of churned customers who come back each month
+  reactivationRate: number;
+  supportCostPerUser: number;
+  infrastructureCostPerUser: number;
+  // Payment processor fee, in percent of revenue
+  paymentProcessingRate: number;
+  // Per-customer third-party fees (licences, APIs, ...), per month
+  thirdPartyCostPerUser: number;
+  customersPerMonth: number | null;
+  acquisition: AcquisitionSchedule;
+  uncertainty: UncertaintySettings;
+  finance: FinancePlan;
+  valuation: ValuationSettings;
+  actuals: ActualsData;
+  start: StartingPoint;
+  // Months projected, one of HORIZON_OPTIONS
+  horizonMonths: number;
+  // Calendar month (1-12) the fiscal year starts in, for annual and
+  // quarterly rollups
+  fiscalYearStart: number;
+}
+
+// Everything the projection engine needs: the calculator inputs plus the
+// horizon (in months, normally horizonMonths) and the first month of the
+// model as an ISO date.
+export interface Scenario extends CalculatorState {
+  months: number;
+  startDate: string;
+}
+
+export interface MonthData {
+  month: number;
+  date: string;
+  revenue: number;
+  mrr: number;
+  // Customers paying at the end of the month
+  activeCustomers: number;
+  // Acquired during the month
+  newCustomers: number;
+  // Lost during the month
+  churnedCustomers: number;
+  // The starting base plus everyone acquired since month 1, including
+  // customers who later churned
+  cumulativeCustomers: number;
+  netRevenue: number;
+  expansionRevenue: number;
+  // Why MRR moved from the previous month: MRR from new and returning
+  // customers, price and plan moves up (including growth in expansion
+  // revenue) and down, and MRR lost to churn. Lost amounts are positive.
+  newMrr: number;
+  reactivationMrr: number;
+  expansionMrr: number;
+  contractionMrr: number;
+  churnedMrr: number;
+  // This month's costs: cost of revenue (support, infrastructure, payment
+  // processing and third-party fees), acquisition, fixed costs, payroll and
+  // serving free users, and their total
+  costOfRevenue: number;
+  acquisitionCost: number;
+  fixedCosts: number;
+  payroll: number;
+  freeUserCost: number;
+  operatingCosts: number;
+  // Free and trialling users at the end of the month (funnel mode only)
+  freeUsers: number;
+  // People on payroll at the end of the month
+  headcount: number;
+  // This month's revenue minus operating costs
+  netIncome: number;
+  // Percent of this month's revenue left after cost of revenue, and after
+  // cost of revenue and acquisition
+  grossMargin: number;
+  contributionMargin: number;
+  profit: number;
+  // Revenue earned this month (GAAP-style), equal to MRR
+  recognizedRevenue: number;
+  // Cash actually received this month, net of prorated refunds
+  cashCollected: number;
+  // Prepaid cash not yet recognized as revenue, at the end of the month
+  deferredRevenue: number;
+  // Funding received this month
+  funding: number;
+  // Cash at the end of the month: starting cash plus cash collected and
+  // funding, less operating costs
+  cashBalance: number;
+  // Active customers and MRR per plan id
+  planBreakdown: Record<string, PlanMonth>;
+}
+
+export interface PlanMonth {
+  activeCustomers: number;
+  mrr: number;
+  // Active customers at each of the plan's prices, oldest price first
+  pricePoints: PricePointMonth[];
+}
+
+export interface PricePointMonth {
+  price: number;
+  activeCustomers: number;
+}
+
+export interface PlanMetrics {
+  planId: string;
+  name: string;
+  clv: number;
+  cac: number;
+  ltvCacRatio: number;
+  paybackPeriod: number;
+}
+
+export interface ValuationMethodResult {
+  id: 'arr-multiple' | 'dcf' | 'revenue-multiple';
+  label: string;
+  low: number;
+  base: number;
+  high: number;
+  // Human-readable inputs behind the figures
+  assumptions: string[];
+}
+
+export interface ValuationRange {
+  low: number;
+  base: number;
+  high: number;
+  methods: ValuationMethodResult[];
+}
+
+export interface BusinessMetrics {
+  clv: number;
+  arr: number;
+  // Base case of `valuationRange`
+  valuation: number;
+  valuationRange: ValuationRange;
+  paybackPeriod: number;
+  grossMargin: number;
+  ltvCacRatio: number;
+  nrr: number;
+  grr: number;
+  // YoY MRR growth + trailing-year profit margin, null when the horizon is a
+  // year or less
+  ruleOf40: number | null;
+  // (New + reactivation + expansion MRR) ÷ (churned + contraction MRR) over
+  // the trailing year, null when no MRR is lost
+  quickRatio: number | null;
+  breakEvenMonth: number;
+  // First month the cash balance drops below zero, -1 if it never does
+  zeroCashMonth: number;
+  averageArpu: number;
+  // Empty unless the scenario defines plans
+  planMetrics: PlanMetrics[];
+}
+
+// Customers acquired in one month and how many of them remain at the end of
+// each month of their life (retained[0] is the month they were acquired).
+// Cohort 0 is the base already on board at the start.
+export interface CohortData {
+  month: number;
+  acquired: number;
+  retained: number[];
+  // The cohort's MRR by age, including its share of expansion revenue
+  mrr: number[];
+  expansionMrr: number[];
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationMonth {
+  month: number;
+  mrr: PercentileBand;
+  revenue: PercentileBand;
+}
+
+export interface SimulationResult {
+  runs: number;
+  months: SimulationMonth[];
+  // Share of runs (0-1) that have reached the target MRR, or cumulative
+  // break-even, by the end of each month
+  targetByMonth: number[];
+  breakEvenByMonth: number[];
+}
+
+export interface ProjectionResult {
+  projections: MonthData[];
+  metrics: BusinessMetrics;
+  cohorts: CohortData[];
+}
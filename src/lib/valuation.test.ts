@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProjections } from './projections';
+import { DEFAULT_STATE } from './state';
+import { DEFAULT_VALUATION, valueBusiness } from './valuation';
+import type { MonthData, ValuationSettings } from './types';
+
+// Two years at a flat $10,000 of revenue and the given monthly profit
+const flatYears = (netIncome: number): MonthData[] =>
+  calculateProjections({ ...DEFAULT_STATE, months: 24, startDate: '2025-01-01' }).projections
+    .map(d => ({ ...d, recognizedRevenue: 10000, netIncome }));
+
+// One ARR multiple for every growth and NRR
+const settingsWith = (overrides: Partial<ValuationSettings> = {}): ValuationSettings => ({
+  ...DEFAULT_VALUATION,
+  arrMultiples: { growthThresholds: [0], nrrThresholds: [0], multiples: [[5]] },
+  revenueMultipleLow: 2,
+  revenueMultipleHigh: 4,
+  ...overrides
+});
+
+describe('valueBusiness', () => {
+  it('takes the median base case and spans the methods\' extremes', () => {
+    const range = valueBusiness(flatYears(0), settingsWith(), 120000, 100, 0);
+    // ARR 5x = 600,000; DCF of no profit = 0; revenue 3x of 120,000 = 360,000
+    expect(range.methods.map(m => m.base)).toEqual([600000, 0, 360000]);
+    expect(range.base).toBe(360000);
+    expect(range.low).toBe(0);
+    expect(range.high).toBe(600000);
+  });
+
+  it('adds no terminal value when the discount rate does not outrun growth', () => {
+    const projections = flatYears(1000);
+    const monthlyRate = 1.03 ** (1 / 12) - 1;
+    const presentValue = projections.reduce((sum, d) => sum + 1000 / (1 + monthlyRate) ** d.month, 0);
+
+    const dcf = valueBusiness(projections, settingsWith({ discountRate: 3, terminalGrowth: 3 }), 0, 100, 0).methods
+      .find(m => m.id === 'dcf')!;
+    expect(dcf.base).toBe(Math.round(presentValue));
+    expect(dcf.assumptions).toContain('No terminal value (growth is not below the discount rate)');
+
+    const withTerminal = valueBusiness(projections, settingsWith({ discountRate: 4, terminalGrowth: 3 }), 0, 100, 0).methods
+      .find(m => m.id === 'dcf')!;
+    expect(withTerminal.base).toBeGreaterThan(presentValue * 10);
+  });
+});
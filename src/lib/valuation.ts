@@ -0,0 +1,174 @@
+import type { MonthData, MultipleTable, ValuationMethodResult, ValuationRange, ValuationSettings } from './types';
+
+// Roughly in line with private SaaS comparables: 40% growth at 100%+ NRR
+// lands on the 7x ARR the calculator used to apply to everyone.
+export const DEFAULT_MULTIPLE_TABLE: MultipleTable = {
+  growthThresholds: [0, 20, 40, 60, 100],
+  nrrThresholds: [0, 100, 120],
+  multiples: [
+    [2, 3, 4],
+    [4, 5, 6],
+    [6, 7, 9],
+    [8, 10, 12],
+    [10, 13, 16]
+  ]
+};
+
+export const DEFAULT_VALUATION: ValuationSettings = {
+  arrMultiples: DEFAULT_MULTIPLE_TABLE,
+  discountRate: 25,
+  terminalGrowth: 3,
+  revenueMultipleLow: 3,
+  revenueMultipleHigh: 10
+};
+
+// How far the DCF low and high cases move the discount rate
+const DISCOUNT_RATE_FLEX = 5;
+
+// Revenue recognised over the last 12 months, annualised when shorter
+const trailingRevenue = (projections: MonthData[]): number => {
+  const window = projections.slice(-12);
+  if (window.length === 0) return 0;
+  return window.reduce((sum, d) => sum + d.recognizedRevenue, 0) * 12 / window.length;
+};
+
+// Index of the highest threshold at or below `value`; the first tier when
+// the value is below all of them
+const tierIndex = (thresholds: number[], value: number): number => {
+  let index = 0;
+  thresholds.forEach((threshold, i) => {
+    if (value >= threshold) index = i;
+  });
+  return index;
+};
+
+const clampIndex = (index: number, length: number) => Math.min(Math.max(index, 0), length - 1);
+
+const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+const formatMultiple = (value: number) => `${Math.round(value * 10) / 10}x`;
+
+// ARR times a multiple looked up by growth and NRR. The low and high cases
+// read the neighbouring tiers, one step down and up on both axes.
+const arrMultipleValuation = (
+  arr: number,
+  growth: number | null,
+  nrr: number,
+  table: MultipleTable
+): ValuationMethodResult => {
+  const rows = table.multiples.length;
+  const columns = table.nrrThresholds.length;
+  const row = tierIndex(table.growthThresholds, growth ?? 0);
+  const column = tierIndex(table.nrrThresholds, nrr);
+  const at = (r: number, c: number) => table.multiples[clampIndex(r, rows)]?.[clampIndex(c, columns)] ?? 0;
+  const [low, base, high] = [at(row - 1, column - 1), at(row, column), at(row + 1, column + 1)];
+
+  return {
+    id: 'arr-multiple',
+    label: 'ARR multiple',
+    low: arr * low,
+    base: arr * base,
+    high: arr * high,
+    assumptions: [
+      `Ending ARR $${Math.round(arr).toLocaleString()}`,
+      growth === null ? 'No YoY growth to measure' : `YoY MRR growth ${formatPercent(growth)}`,
+      `NRR ${formatPercent(nrr)}`,
+      `${formatMultiple(base)} ARR, neighbouring tiers ${formatMultiple(low)}–${formatMultiple(high)}`
+    ]
+  };
+};
+
+// Present value of the monthly net income stream plus a Gordon-growth
+// terminal value on the final year's profit
+const discountedCashFlow = (
+  projections: MonthData[],
+  discountRate: number,
+  terminalGrowth: number
+): number => {
+  const monthlyRate = (1 + discountRate / 100) ** (1 / 12) - 1;
+  const presentValue = projections.reduce(
+    (sum, d) => sum + d.netIncome / (1 + monthlyRate) ** d.month,
+    0
+  );
+  // A terminal value only exists while the discount rate outruns growth
+  if (discountRate <= terminalGrowth || projections.length === 0) return presentValue;
+
+  const finalYear = projections.slice(-12);
+  const annualProfit = finalYear.reduce((sum, d) => sum + d.netIncome, 0) * 12 / finalYear.length;
+  const terminalValue = annualProfit * (1 + terminalGrowth / 100) / ((discountRate - terminalGrowth) / 100);
+  return presentValue + terminalValue / (1 + monthlyRate) ** projections.length;
+};
+
+const dcfValuation = (projections: MonthData[], settings: ValuationSettings): ValuationMethodResult => {
+  const { discountRate, terminalGrowth } = settings;
+  const highRate = discountRate + DISCOUNT_RATE_FLEX;
+  // Kept above terminal growth so the high case keeps its terminal value
+  const lowRate = Math.max(discountRate - DISCOUNT_RATE_FLEX, Math.min(discountRate, terminalGrowth + 1));
+
+  return {
+    id: 'dcf',
+    label: 'Discounted cash flow',
+    low: discountedCashFlow(projections, highRate, terminalGrowth),
+    base: discountedCashFlow(projections, discountRate, terminalGrowth),
+    high: discountedCashFlow(projections, lowRate, terminalGrowth),
+    assumptions: [
+      `Net income over ${projections.length} months`,
+      `Discount rate ${formatPercent(discountRate)}/yr (${formatPercent(highRate)} low, ${formatPercent(lowRate)} high)`,
+      discountRate > terminalGrowth
+        ? `Terminal growth ${formatPercent(terminalGrowth)}/yr on final-year profit`
+        : 'No terminal value (growth is not below the discount rate)'
+    ]
+  };
+};
+
+const revenueMultipleValuation = (projections: MonthData[], settings: ValuationSettings): ValuationMethodResult => {
+  const revenue = trailingRevenue(projections);
+  const { revenueMultipleLow: low, revenueMultipleHigh: high } = settings;
+  const base = (low + high) / 2;
+
+  return {
+    id: 'revenue-multiple',
+    label: 'Revenue multiple',
+    low: revenue * low,
+    base: revenue * base,
+    high: revenue * high,
+    assumptions: [
+      `Trailing 12-month revenue $${Math.round(revenue).toLocaleString()}`,
+      `${formatMultiple(low)}–${formatMultiple(high)} revenue, midpoint ${formatMultiple(base)}`
+    ]
+  };
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Values the business three ways. The overall range spans the lowest low and
+// highest high; the base case is the median of the three base cases, so one
+// outlying method cannot drag it.
+export const valueBusiness = (
+  projections: MonthData[],
+  settings: ValuationSettings,
+  arr: number,
+  nrr: number,
+  growth: number | null
+): ValuationRange => {
+  const methods = [
+    arrMultipleValuation(arr, growth, nrr, settings.arrMultiples),
+    dcfValuation(projections, settings),
+    revenueMultipleValuation(projections, settings)
+  ].map(method => ({
+    ...method,
+    low: Math.round(method.low),
+    base: Math.round(method.base),
+    high: Math.round(method.high)
+  }));
+
+  return {
+    low: Math.min(...methods.map(m => m.low)),
+    base: Math.round(median(methods.map(m => m.base))),
+    high: Math.max(...methods.map(m => m.high)),
+    methods
+  };
+};